@@ -6,11 +6,44 @@
  * - bridge init [--repo <path>]  - Initialize .ai-handoff in a repo
  * - bridge run [--repo <path>]   - Start the watcher loop
  * - bridge harness [--repo <path>] - Run security harness tests
+ * - bridge recover [--repo <path>] - Recover orphaned tasks after a crash
+ * - bridge queue [list|pause|resume|limit] - Inspect and control task queues
+ * - bridge cancel <id> - Cancel a queued or running task
+ * - bridge validate [file|dir] - Check task files against the schema
+ * - bridge schema - Print the task JSON Schema
+ * - bridge new [--title ...] - Write a new task to the tasks directory
  */
 
 import * as path from 'node:path';
-import { WatcherLoop } from './watcher/index.js';
+import { createInterface } from 'node:readline/promises';
+import {
+    WatcherLoop,
+    RecoveryPolicy,
+    HANDOFF_DIR,
+    DIRS,
+    DEFAULT_QUEUE,
+    loadTaskEntries,
+    readQueueState,
+    updateQueueSettings,
+    taskQueue,
+    requestCancel,
+    readResult,
+    findTaskErrors,
+    taskJsonSchema,
+    TaskFieldError,
+    Task,
+    VerifyCommand,
+    TaskValidationError,
+    validateTask,
+    generateTaskId,
+    isTaskFile,
+    taskFileFormat,
+    parseTaskContent,
+    TASK_SCHEMA_VERSION,
+    TASK_ID_PATTERN
+} from './watcher/index.js';
 import { runHarness } from './harness/index.js';
+import { fsSafe } from './safe/index.js';
 
 const VERSION = '0.1.0';
 
@@ -26,16 +59,34 @@ COMMANDS:
   init      Initialize .ai-handoff directory in a repository
   run       Start the watcher loop (processes tasks)
   harness   Run adversarial security tests
+  recover   Recover tasks orphaned by a crashed watcher
+  queue     List queues, or: queue pause|resume <name>, queue limit <name> <n|none>
+  cancel    Cancel a queued or running task: cancel <id>
+  validate  Check task files against the schema: validate [file|dir] (default: the tasks directory)
+  schema    Print the task JSON Schema
+  new       Write a new task to the tasks directory (asks for anything not given as an option)
 
 OPTIONS:
-  --repo <path>    Path to target repository (default: current directory)
-  --help           Show this help message
-  --version        Show version
+  --repo <path>       Path to target repository (default: current directory)
+  --force             Re-run tasks that already have a result (run only)
+  --concurrency <n>   Tasks processed at once (run only, default: 1)
+  --policy <p>        Orphaned task handling: requeue (default) or fail
+  --title <text>      Task title (new only)
+  --prompt-file <f>   File holding the task prompt (new only)
+  --scope <paths>     Paths the task may change, comma-separated or repeated (new only)
+  --verify <cmd>      Verification command, e.g. "bun test"; repeatable (new only)
+  --help              Show this help message
+  --version           Show version
 
 EXAMPLES:
   bridge init --repo ~/dev/my-app
   bridge run --repo ~/dev/my-app
   bridge harness
+  bridge recover --policy fail
+  bridge queue pause refactors
+  bridge cancel task-1700000000000-abc123
+  bridge validate .ai-handoff/tasks/my-task.json
+  bridge new --title "Add login" --prompt-file prompt.md --scope src/auth --verify "bun test"
 
 SECURITY:
   All untrusted code runs inside Docker with:
@@ -45,9 +96,32 @@ SECURITY:
 `);
 }
 
-function parseArgs(args: string[]): { command: string; repo: string } {
+interface CliArgs {
+    command: string;
+    /** Positional arguments after the command */
+    params: string[];
+    repo: string;
+    force: boolean;
+    policy?: RecoveryPolicy;
+    concurrency?: number;
+    /** Options of `bridge new` */
+    title?: string;
+    promptFile?: string;
+    scope: string[];
+    verify: string[];
+}
+
+function parseArgs(args: string[]): CliArgs {
     let command = '';
+    const params: string[] = [];
     let repo = process.cwd();
+    let force = false;
+    let policy: RecoveryPolicy | undefined;
+    let concurrency: number | undefined;
+    let title: string | undefined;
+    let promptFile: string | undefined;
+    const scope: string[] = [];
+    const verify: string[] = [];
 
     for (let i = 0; i < args.length; i++) {
         const arg = args[i];
@@ -67,16 +141,302 @@ function parseArgs(args: string[]): { command: string; repo: string } {
             continue;
         }
 
-        if (!arg.startsWith('-') && !command) {
-            command = arg;
+        if (arg === '--force') {
+            force = true;
+            continue;
+        }
+
+        if (arg === '--policy') {
+            const value = args[++i];
+            if (value !== 'requeue' && value !== 'fail') {
+                console.error(`Invalid --policy: ${value} (expected requeue or fail)`);
+                process.exit(1);
+            }
+            policy = value;
+            continue;
+        }
+
+        if (arg === '--concurrency') {
+            concurrency = Number(args[++i]);
+            if (!Number.isInteger(concurrency) || concurrency < 1) {
+                console.error('Invalid --concurrency: expected a positive integer');
+                process.exit(1);
+            }
+            continue;
+        }
+
+        if (arg === '--title' || arg === '--prompt-file' || arg === '--scope' || arg === '--verify') {
+            const value = args[++i];
+            if (value === undefined) {
+                console.error(`Missing value for ${arg}`);
+                process.exit(1);
+            }
+            if (arg === '--title') title = value;
+            if (arg === '--prompt-file') promptFile = value;
+            if (arg === '--scope') scope.push(...splitList(value));
+            if (arg === '--verify') verify.push(value);
+            continue;
+        }
+
+        if (!arg.startsWith('-')) {
+            if (!command) {
+                command = arg;
+            } else {
+                params.push(arg);
+            }
+        }
+    }
+
+    return { command, params, repo: path.resolve(repo), force, policy, concurrency, title, promptFile, scope, verify };
+}
+
+/**
+ * bridge queue [list] | pause <name> | resume <name> | limit <name> <n|none>
+ */
+async function queueCommand(repo: string, params: string[]): Promise<void> {
+    const handoffPath = path.join(repo, HANDOFF_DIR);
+    const [action = 'list', name, value] = params;
+
+    if (action === 'list') {
+        const state = await readQueueState(handoffPath, repo);
+        const entries = await loadTaskEntries(path.join(handoffPath, DIRS.tasks), repo);
+
+        const queued = new Map<string, number>();
+        for (const { task } of entries) {
+            queued.set(taskQueue(task), (queued.get(taskQueue(task)) ?? 0) + 1);
+        }
+
+        const names = [...new Set([DEFAULT_QUEUE, ...Object.keys(state), ...queued.keys()])].sort();
+        for (const queue of names) {
+            const settings = state[queue] ?? {};
+            const limit = settings.concurrency !== undefined ? `, limit ${settings.concurrency}` : '';
+            console.log(`${queue.padEnd(20)}${settings.paused ? 'paused' : 'active'}, ${queued.get(queue) ?? 0} queued${limit}`);
+        }
+        return;
+    }
+
+    if (!name) {
+        console.error(`Usage: bridge queue ${action} <name>`);
+        process.exit(1);
+    }
+
+    switch (action) {
+        case 'pause':
+        case 'resume': {
+            await updateQueueSettings(handoffPath, name, { paused: action === 'pause' }, repo);
+            console.log(`✅ Queue ${name} ${action === 'pause' ? 'paused' : 'resumed'}`);
+            break;
+        }
+
+        case 'limit': {
+            const concurrency = value === 'none' ? undefined : Number(value);
+            if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+                console.error('Invalid limit: expected a positive integer or "none"');
+                process.exit(1);
+            }
+            await updateQueueSettings(handoffPath, name, { concurrency }, repo);
+            console.log(`✅ Queue ${name} limit: ${concurrency ?? 'none'}`);
+            break;
+        }
+
+        default:
+            console.error(`Unknown queue action: ${action} (expected list, pause, resume or limit)`);
+            process.exit(1);
+    }
+}
+
+/**
+ * bridge cancel <id>
+ *
+ * Queued tasks are found by id whatever their file name or format.
+ * A task that already has a result is left alone.
+ */
+async function cancelCommand(repo: string, taskId: string): Promise<void> {
+    if (!TASK_ID_PATTERN.test(taskId)) {
+        console.error(`Invalid task id: ${taskId}`);
+        process.exit(1);
+    }
+
+    const handoffPath = path.join(repo, HANDOFF_DIR);
+    // Tasks in running/ are always stored as <id>.json
+    const running = await fsSafe.exists(path.join(handoffPath, DIRS.running, `${taskId}.json`), repo);
+    const queued = !running && (await loadTaskEntries(path.join(handoffPath, DIRS.tasks), repo))
+        .some(entry => entry.task.id === taskId);
+
+    if (!running && !queued) {
+        const result = await readResult(path.join(handoffPath, DIRS.results), taskId, repo).catch(() => null);
+        // A rejected task never ran; its resubmission can still be cancelled
+        if (result && result.exitPath !== 'schema_invalid') {
+            console.log(`Task ${taskId} already finished (status: ${result.status}); nothing to cancel`);
+            return;
+        }
+    }
+
+    await requestCancel(handoffPath, taskId, repo);
+
+    if (running) {
+        console.log(`✅ Cancel requested; running task ${taskId} will be aborted`);
+    } else if (queued) {
+        console.log(`✅ Cancel requested; queued task ${taskId} will not run`);
+    } else {
+        console.log(`✅ Cancel requested; task ${taskId} will be cancelled if it is queued`);
+    }
+}
+
+/**
+ * bridge validate [file|dir]
+ *
+ * @returns Whether every task file is valid
+ */
+async function validateCommand(repo: string, params: string[]): Promise<boolean> {
+    const target = path.resolve(params[0] ?? path.join(repo, HANDOFF_DIR, DIRS.tasks));
+
+    let root: string;
+    let files: string[];
+    if ((await fsSafe.stat(target, path.dirname(target))).isDirectory()) {
+        root = target;
+        files = (await fsSafe.readdir(target, root))
+            .filter(isTaskFile)
+            .sort()
+            .map(f => path.join(target, f));
+    } else {
+        root = path.dirname(target);
+        files = [target];
+    }
+
+    if (files.length === 0) {
+        console.log(`No task files in ${target}`);
+        return true;
+    }
+
+    let invalid = 0;
+    for (const file of files) {
+        let errors: TaskFieldError[];
+        try {
+            const content = await fsSafe.read(file, root);
+            errors = findTaskErrors(parseTaskContent(content, taskFileFormat(file) ?? 'json'));
+        } catch (err) {
+            errors = err instanceof TaskValidationError
+                ? err.errors
+                : [{ field: null, message: `Invalid JSON: ${(err as Error).message}` }];
+        }
+
+        const name = path.relative(process.cwd(), file) || file;
+        if (errors.length === 0) {
+            console.log(`✅ ${name}`);
+            continue;
+        }
+
+        invalid++;
+        console.log(`❌ ${name}`);
+        for (const error of errors) {
+            console.log(`   - ${error.message}`);
+        }
+    }
+
+    console.log(`\n${files.length - invalid} of ${files.length} task file(s) valid`);
+    return invalid === 0;
+}
+
+/**
+ * bridge new [--title <t>] [--prompt-file <f>] [--scope <paths>] [--verify <cmd>]...
+ *
+ * Options that are not given are asked for interactively (a terminal is required then).
+ *
+ * @returns Whether the task was written
+ */
+async function newCommand(repo: string, args: CliArgs): Promise<boolean> {
+    let { title, scope, verify } = args;
+    let prompt = args.promptFile !== undefined
+        ? await fsSafe.read(path.resolve(args.promptFile), path.dirname(path.resolve(args.promptFile)))
+        : undefined;
+
+    if (title === undefined || prompt === undefined || scope.length === 0) {
+        if (!process.stdin.isTTY) {
+            console.error('Missing --title, --prompt-file or --scope (and no terminal to ask for them)');
+            return false;
+        }
+
+        const rl = createInterface({ input: process.stdin, output: process.stdout });
+        try {
+            title ??= (await rl.question('Title: ')).trim();
+            if (prompt === undefined) {
+                console.log('Prompt (end with an empty line):');
+                prompt = (await readLines(rl, '> ')).join('\n');
+            }
+            if (scope.length === 0) {
+                scope = splitList(await rl.question('Scope (comma-separated paths): '));
+            }
+            if (verify.length === 0) {
+                console.log('Verify commands, e.g. "bun test" (end with an empty line):');
+                verify = await readLines(rl, '$ ');
+            }
+        } finally {
+            rl.close();
         }
     }
 
-    return { command, repo: path.resolve(repo) };
+    const candidate: Task = {
+        schemaVersion: TASK_SCHEMA_VERSION,
+        id: generateTaskId(),
+        created: new Date().toISOString(),
+        title,
+        prompt: prompt.trim(),
+        scope,
+        verify: verify.map(parseVerifyCommand)
+    };
+
+    let task: Task;
+    try {
+        task = validateTask(candidate);
+    } catch (err) {
+        if (!(err instanceof TaskValidationError)) throw err;
+        console.error('❌ Task is not valid:');
+        for (const error of err.errors) {
+            console.error(`   - ${error.message}`);
+        }
+        return false;
+    }
+
+    // Written to a temp file and renamed into place, so the watcher never sees it half-written
+    const taskPath = path.join(repo, HANDOFF_DIR, DIRS.tasks, `${task.id}.json`);
+    await fsSafe.writeAtomic(taskPath, JSON.stringify(task, null, 2) + '\n', repo);
+    console.log(`✅ Queued task ${task.id}: ${path.relative(process.cwd(), taskPath) || taskPath}`);
+    return true;
+}
+
+/**
+ * Read lines until an empty one
+ */
+async function readLines(rl: ReturnType<typeof createInterface>, prefix: string): Promise<string[]> {
+    const lines: string[] = [];
+    for (;;) {
+        const line = await rl.question(prefix);
+        if (!line.trim()) return lines;
+        lines.push(line);
+    }
+}
+
+/**
+ * Split a comma-separated option value
+ */
+function splitList(value: string): string[] {
+    return value.split(',').map(v => v.trim()).filter(Boolean);
+}
+
+/**
+ * Turn a command line such as `bun test --filter "auth flow"` into a verify command.
+ * Words are split on whitespace; single or double quotes group words.
+ */
+function parseVerifyCommand(line: string): VerifyCommand {
+    const words = [...line.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)].map(m => m[1] ?? m[2] ?? m[3]);
+    const [cmd = '', ...args] = words;
+    return { cmd, args };
 }
 
 async function main(): Promise<void> {
-    const { command, repo } = parseArgs(process.argv.slice(2));
+    const cliArgs = parseArgs(process.argv.slice(2));
+    const { command, params, repo, force, policy, concurrency } = cliArgs;
 
     if (!command) {
         printUsage();
@@ -99,16 +459,19 @@ async function main(): Promise<void> {
 
         case 'run': {
             console.log(`Starting Bridge Watcher for: ${repo}`);
-            const watcher = new WatcherLoop({ repoPath: repo });
+            const watcher = new WatcherLoop({ repoPath: repo, force, concurrency, recovery: { policy } });
 
-            // Handle graceful shutdown
-            process.on('SIGINT', () => {
-                console.log('\nShutting down...');
-                watcher.stop();
-            });
-            process.on('SIGTERM', () => {
-                watcher.stop();
-            });
+            // Handle graceful shutdown; a second signal aborts the current task
+            let signals = 0;
+            const onSignal = (): void => {
+                signals++;
+                console.log(signals === 1
+                    ? '\nShutting down (waiting for current task, signal again to abort)...'
+                    : '\nAborting current task...');
+                void watcher.shutdown();
+            };
+            process.on('SIGINT', onSignal);
+            process.on('SIGTERM', onSignal);
 
             await watcher.run();
             break;
@@ -119,6 +482,52 @@ async function main(): Promise<void> {
             process.exit(result.passed ? 0 : 1);
         }
 
+        case 'recover': {
+            console.log(`Recovering orphaned tasks in: ${repo}`);
+            const watcher = new WatcherLoop({ repoPath: repo, recovery: { policy } });
+            const report = await watcher.recover();
+            if (report.records.length === 0) {
+                console.log('✅ Nothing to recover');
+            } else {
+                console.log(`✅ Recovered ${report.records.length} task(s); notes in .ai-handoff/meta/incidents/`);
+            }
+            for (const record of report.records.filter(r => r.action === 'error')) {
+                console.error(`⚠️  ${record.taskId}: ${record.reason}`);
+            }
+            break;
+        }
+
+        case 'queue': {
+            await queueCommand(repo, params);
+            break;
+        }
+
+        case 'cancel': {
+            const [taskId] = params;
+            if (!taskId) {
+                console.error('Usage: bridge cancel <id>');
+                process.exit(1);
+            }
+
+            await cancelCommand(repo, taskId);
+            break;
+        }
+
+        case 'validate': {
+            const valid = await validateCommand(repo, params);
+            process.exit(valid ? 0 : 1);
+        }
+
+        case 'new': {
+            const written = await newCommand(repo, cliArgs);
+            process.exit(written ? 0 : 1);
+        }
+
+        case 'schema': {
+            console.log(JSON.stringify(taskJsonSchema(), null, 2));
+            break;
+        }
+
         default:
             console.error(`Unknown command: ${command}`);
             printUsage();
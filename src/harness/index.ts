@@ -2,7 +2,7 @@
  * Harness Runner
  * 
  * Executes all adversarial tests and reports results.
- * All 6 tests must pass for the system to be considered secure.
+ * All 12 tests must pass for the system to be considered secure.
  */
 
 import * as fs from 'node:fs/promises';
@@ -13,6 +13,12 @@ import { runOverlapLeakTest } from './tests/overlap-leak.js';
 import { runDeleteEscapeTest } from './tests/delete-escape.js';
 import { runHookTrapTest } from './tests/hook-trap.js';
 import { runExfilAttemptTest } from './tests/exfil-attempt.js';
+import { runStreamedSecretTest } from './tests/streamed-secret.js';
+import { runImpossibleDateTest } from './tests/impossible-date.js';
+import { runPatchCaptureTest } from './tests/patch-capture.js';
+import { runDependencyCycleTest } from './tests/dependency-cycle.js';
+import { runRerunDeletedResultTest } from './tests/rerun-deleted-result.js';
+import { runRetryLogsTest } from './tests/retry-logs.js';
 
 export interface TestResult {
     name: string;
@@ -50,7 +56,13 @@ export async function runHarness(repoPath: string): Promise<HarnessResult> {
         { name: 'Overlap Leak', run: runOverlapLeakTest },
         { name: 'Delete Escape', run: runDeleteEscapeTest },
         { name: 'Hook Trap', run: runHookTrapTest },
-        { name: 'Exfil Attempt', run: runExfilAttemptTest }
+        { name: 'Exfil Attempt', run: runExfilAttemptTest },
+        { name: 'Streamed Secret', run: runStreamedSecretTest },
+        { name: 'Impossible Date', run: runImpossibleDateTest },
+        { name: 'Patch Capture', run: runPatchCaptureTest },
+        { name: 'Dependency Cycle', run: runDependencyCycleTest },
+        { name: 'Rerun Deleted Result', run: runRerunDeletedResultTest },
+        { name: 'Retry Logs', run: runRetryLogsTest }
     ];
 
     for (const test of tests) {
@@ -0,0 +1,165 @@
+/**
+ * Dependency Cycle Test
+ *
+ * Proves: Every task in a dependency cycle is rejected, and the tasks that
+ * depend on the cycle fail instead of waiting forever
+ *
+ * Attack scenario:
+ * 1. Three tasks depend on each other in a ring, and a fourth depends on
+ *    the ring
+ * 2. Another task holds the only slot while the ring is first seen
+ *
+ * Expected: All three ring members end up in rejected/ with a schema_invalid
+ * result naming the cycle, the dependent fails with dependency_failed, and
+ * the single pass ends without anything left in tasks/
+ *
+ * NOTE: This test requires Docker to be running
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { gitSafe } from '../../safe/index.js';
+import { isDockerAvailable, isRunnerImageAvailable, Executor } from '../../runner/index.js';
+import { WatcherLoop, HANDOFF_DIR, DIRS, readResult } from '../../watcher/index.js';
+
+export interface TestResult {
+    name: string;
+    passed: boolean;
+    message: string;
+}
+
+const RING = ['cycle-a', 'cycle-b', 'cycle-c'];
+const DEPENDENT = 'cycle-dependent';
+const SLOT_HOLDER = 'cycle-slot-holder';
+
+/** How long the slot holder keeps the only slot */
+const HOLD_MS = 2000;
+
+/** The pass is stopped after this long; a stuck dependent would otherwise wait forever */
+const RUN_LIMIT_MS = 60_000;
+
+/** Executor that changes nothing, slowly */
+const slowExecutor: Executor = {
+    name: 'SlowExecutor',
+    async execute() {
+        await new Promise(resolve => setTimeout(resolve, HOLD_MS));
+        return {
+            exitCode: 0,
+            stdout: '',
+            stderr: '',
+            timedOut: false,
+            outputBytes: { stdout: 0, stderr: 0 },
+            outputTruncated: false,
+            durationMs: HOLD_MS,
+            outcome: 'completed'
+        };
+    },
+    async abort() {
+        // Nothing to stop
+    }
+};
+
+export async function runDependencyCycleTest(testDir: string): Promise<TestResult> {
+    const name = 'Dependency Cycle';
+    const repoPath = path.join(testDir, 'dependency-cycle-repo');
+    const handoffPath = path.join(repoPath, HANDOFF_DIR);
+
+    try {
+        // Check Docker availability
+        const dockerOk = await isDockerAvailable();
+        if (!dockerOk) {
+            return {
+                name,
+                passed: false,
+                message: 'Docker not available - cannot run dependency cycle test'
+            };
+        }
+
+        const imageOk = await isRunnerImageAvailable();
+        if (!imageOk) {
+            return {
+                name,
+                passed: false,
+                message: 'bridge-runner:dev image not found - build it first'
+            };
+        }
+
+        // Create a clean test repo with .ai-handoff ignored
+        await fs.mkdir(repoPath, { recursive: true });
+        await gitSafe.init(repoPath);
+        const watcher = new WatcherLoop({ repoPath, singlePass: true, concurrency: 1, executor: slowExecutor });
+        await watcher.init();
+        await gitSafe.addAll(repoPath);
+        await gitSafe.commit(repoPath, 'Initial commit', { name: 'Harness', email: 'harness@localhost' });
+
+        const created = new Date().toISOString();
+        const tasks = [
+            { id: SLOT_HOLDER, priority: 10 },
+            ...RING.map((id, i) => ({ id, dependsOn: [RING[(i + 1) % RING.length]] })),
+            { id: DEPENDENT, dependsOn: [RING[0]] }
+        ];
+        for (const task of tasks) {
+            await fs.writeFile(
+                path.join(handoffPath, DIRS.tasks, `${task.id}.json`),
+                JSON.stringify({ created, title: task.id, prompt: 'Change nothing', scope: ['src'], verify: [], ...task })
+            );
+        }
+
+        const limit = setTimeout(() => watcher.stop(), RUN_LIMIT_MS);
+        try {
+            await watcher.run();
+        } finally {
+            clearTimeout(limit);
+        }
+
+        const resultsDir = path.join(handoffPath, DIRS.results);
+        const rejected = await fs.readdir(path.join(handoffPath, DIRS.rejected));
+        for (const id of RING) {
+            const result = await readResult(resultsDir, id, repoPath);
+            if (result?.exitPath !== 'schema_invalid' || !('cycle' in result.details)) {
+                return {
+                    name,
+                    passed: false,
+                    message: `Cycle member ${id} was not rejected as a cycle (${result?.exitPath ?? 'no result'})`
+                };
+            }
+            if (!rejected.includes(`${id}.json`)) {
+                return {
+                    name,
+                    passed: false,
+                    message: `Cycle member ${id} was not moved to rejected/`
+                };
+            }
+        }
+
+        const dependent = await readResult(resultsDir, DEPENDENT, repoPath);
+        if (dependent?.exitPath !== 'dependency_failed') {
+            return {
+                name,
+                passed: false,
+                message: `Dependent of the cycle ended with ${dependent?.exitPath ?? 'no result'}, expected dependency_failed`
+            };
+        }
+
+        const left = await fs.readdir(path.join(handoffPath, DIRS.tasks));
+        if (left.length > 0) {
+            return {
+                name,
+                passed: false,
+                message: `Tasks left waiting: ${left.join(', ')}`
+            };
+        }
+
+        return {
+            name,
+            passed: true,
+            message: `All ${RING.length} cycle members rejected while the slot was busy; dependent failed`
+        };
+    } catch (err) {
+        return {
+            name,
+            passed: false,
+            message: `Test error: ${err instanceof Error ? err.message : String(err)}`
+        };
+    }
+}
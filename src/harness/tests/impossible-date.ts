@@ -0,0 +1,81 @@
+/**
+ * Impossible Date Test
+ *
+ * Proves: A task's created date must name a moment that exists
+ *
+ * Attack scenario:
+ * 1. A task file gives created as a well-formed date that does not exist
+ *    (February 30th, hour 24, ...)
+ * 2. Date.parse quietly rolls it over into a real one
+ *
+ * Expected: Every impossible date fails validation on the created field,
+ * while real dates (leap days, fractional seconds, timezone offsets) pass
+ */
+
+import { findTaskErrors } from '../../watcher/index.js';
+
+export interface TestResult {
+    name: string;
+    passed: boolean;
+    message: string;
+}
+
+/** Well-formed but nonexistent; Date.parse rolls the first four over into real dates */
+const IMPOSSIBLE_DATES = [
+    '2026-02-30T00:00:00Z',
+    '2026-02-29T12:00:00Z',
+    '2026-04-31T08:00:00-03:00',
+    '2026-01-31T24:00:00Z',
+    '2026-13-01T00:00:00Z',
+    '2026-01-31T12:60:00+01:00'
+];
+
+const REAL_DATES = [
+    '2026-01-31T12:00:00Z',
+    '2024-02-29T23:59:59.500+05:30',
+    '2026-12-31T00:00:00-11:00'
+];
+
+export async function runImpossibleDateTest(_testDir: string): Promise<TestResult> {
+    const name = 'Impossible Date';
+
+    try {
+        const accepted = IMPOSSIBLE_DATES.filter(created => !createdErrors(created));
+        if (accepted.length > 0) {
+            return {
+                name,
+                passed: false,
+                message: `Impossible created dates accepted: ${accepted.join(', ')}`
+            };
+        }
+
+        const rejected = REAL_DATES.filter(created => createdErrors(created));
+        if (rejected.length > 0) {
+            return {
+                name,
+                passed: false,
+                message: `Real created dates rejected: ${rejected.join(', ')}`
+            };
+        }
+
+        return {
+            name,
+            passed: true,
+            message: `${IMPOSSIBLE_DATES.length} impossible dates rejected, ${REAL_DATES.length} real dates accepted`
+        };
+    } catch (err) {
+        return {
+            name,
+            passed: false,
+            message: `Test error: ${err instanceof Error ? err.message : String(err)}`
+        };
+    }
+}
+
+/**
+ * Whether a task that is valid apart from its created date fails on created
+ */
+function createdErrors(created: string): boolean {
+    const task = { id: 'impossible-date', created, title: 'Date check', prompt: 'Change nothing', scope: ['src'], verify: [] };
+    return findTaskErrors(task).some(e => e.field === 'created');
+}
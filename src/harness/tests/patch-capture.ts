@@ -0,0 +1,182 @@
+/**
+ * Patch Capture Test
+ *
+ * Proves: Nothing is committed that the secret scan did not see
+ *
+ * Attack scenario:
+ * 1. One task writes more changes than fit in the patch, so the patch
+ *    is cut off before its end
+ * 2. Another task hides a secret in a binary file, which the patch only
+ *    names ("Binary files differ")
+ *
+ * Expected: The oversized task fails with patch_too_large, the binary task
+ * ends with secret_detected, neither task branch gets a commit, and no file
+ * under .ai-handoff contains the secret
+ *
+ * NOTE: This test requires Docker to be running
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { gitSafe, MAX_DIFF_SIZE } from '../../safe/index.js';
+import { isDockerAvailable, isRunnerImageAvailable, Executor } from '../../runner/index.js';
+import { WatcherLoop, HANDOFF_DIR, DIRS, readResult, taskBranchName } from '../../watcher/index.js';
+
+export interface TestResult {
+    name: string;
+    passed: boolean;
+    message: string;
+}
+
+/** Assembled at runtime, so the secret only appears whole in the written file */
+const SECRET = 'ghp_' + 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+const OVERSIZED_TASK = 'patch-oversized';
+const BINARY_TASK = 'patch-binary-secret';
+
+/** Executor that writes the file each task's prompt names */
+const writingExecutor: Executor = {
+    name: 'WritingExecutor',
+    async execute(prompt, opts) {
+        await fs.mkdir(path.join(opts.wsPath, 'src'), { recursive: true });
+        if (prompt === OVERSIZED_TASK) {
+            // Text lines, so the change is in the patch but past its limit
+            const line = 'x'.repeat(99) + '\n';
+            await fs.writeFile(path.join(opts.wsPath, 'src', 'big.txt'), line.repeat(Math.ceil(MAX_DIFF_SIZE / line.length) + 1));
+        } else {
+            await fs.writeFile(
+                path.join(opts.wsPath, 'src', 'blob.bin'),
+                Buffer.concat([Buffer.from([0, 1, 2, 3]), Buffer.from(`token=${SECRET}`), Buffer.from([0])])
+            );
+        }
+        return {
+            exitCode: 0,
+            stdout: '',
+            stderr: '',
+            timedOut: false,
+            outputBytes: { stdout: 0, stderr: 0 },
+            outputTruncated: false,
+            durationMs: 0,
+            outcome: 'completed'
+        };
+    },
+    async abort() {
+        // Nothing in flight
+    }
+};
+
+export async function runPatchCaptureTest(testDir: string): Promise<TestResult> {
+    const name = 'Patch Capture';
+    const repoPath = path.join(testDir, 'patch-capture-repo');
+    const handoffPath = path.join(repoPath, HANDOFF_DIR);
+
+    try {
+        // Check Docker availability
+        const dockerOk = await isDockerAvailable();
+        if (!dockerOk) {
+            return {
+                name,
+                passed: false,
+                message: 'Docker not available - cannot run patch capture test'
+            };
+        }
+
+        const imageOk = await isRunnerImageAvailable();
+        if (!imageOk) {
+            return {
+                name,
+                passed: false,
+                message: 'bridge-runner:dev image not found - build it first'
+            };
+        }
+
+        // Create a clean test repo with .ai-handoff ignored
+        await fs.mkdir(repoPath, { recursive: true });
+        await gitSafe.init(repoPath);
+        const watcher = new WatcherLoop({ repoPath, singlePass: true, executor: writingExecutor });
+        await watcher.init();
+        await gitSafe.addAll(repoPath);
+        const initialCommit = await gitSafe.commit(repoPath, 'Initial commit', { name: 'Harness', email: 'harness@localhost' });
+
+        for (const id of [OVERSIZED_TASK, BINARY_TASK]) {
+            const task = {
+                id,
+                created: new Date().toISOString(),
+                title: `Write ${id}`,
+                prompt: id,
+                scope: ['src'],
+                verify: []
+            };
+            await fs.writeFile(path.join(handoffPath, DIRS.tasks, `${id}.json`), JSON.stringify(task));
+        }
+
+        await watcher.run();
+
+        const resultsDir = path.join(handoffPath, DIRS.results);
+        const oversized = await readResult(resultsDir, OVERSIZED_TASK, repoPath);
+        if (oversized?.exitPath !== 'patch_too_large') {
+            return {
+                name,
+                passed: false,
+                message: `Oversized patch ended with ${oversized?.exitPath ?? 'no result'}, expected patch_too_large`
+            };
+        }
+
+        const binary = await readResult(resultsDir, BINARY_TASK, repoPath);
+        if (binary?.exitPath !== 'secret_detected') {
+            return {
+                name,
+                passed: false,
+                message: `CRITICAL: Secret in a binary file not detected (task ended with ${binary?.exitPath ?? 'no result'})`
+            };
+        }
+
+        for (const id of [OVERSIZED_TASK, BINARY_TASK]) {
+            const head = await gitSafe.branchHead(repoPath, taskBranchName(id));
+            if (head && head !== initialCommit) {
+                return {
+                    name,
+                    passed: false,
+                    message: `CRITICAL: ${taskBranchName(id)} got a commit (${head})`
+                };
+            }
+        }
+
+        const leaked = await findFilesContaining(handoffPath, SECRET);
+        if (leaked.length > 0) {
+            return {
+                name,
+                passed: false,
+                message: `CRITICAL: Secret written to disk: ${leaked.map(f => path.relative(handoffPath, f)).join(', ')}`
+            };
+        }
+
+        return {
+            name,
+            passed: true,
+            message: 'Oversized patch failed and binary secret detected; nothing committed'
+        };
+    } catch (err) {
+        return {
+            name,
+            passed: false,
+            message: `Test error: ${err instanceof Error ? err.message : String(err)}`
+        };
+    }
+}
+
+/**
+ * Files under a directory whose content includes a string
+ */
+async function findFilesContaining(dir: string, needle: string): Promise<string[]> {
+    const found: string[] = [];
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            found.push(...await findFilesContaining(fullPath, needle));
+        } else if (entry.isFile() && (await fs.readFile(fullPath, 'utf8')).includes(needle)) {
+            found.push(fullPath);
+        }
+    }
+    return found;
+}
@@ -0,0 +1,154 @@
+/**
+ * Rerun Deleted Result Test
+ *
+ * Proves: A task whose result was deleted runs again from scratch when it
+ * is re-added, even though its feat/ai branch is still there
+ *
+ * Attack scenario:
+ * 1. A task runs and commits its change on feat/ai/<id>
+ * 2. The planner deletes the result and puts the same task back in tasks/
+ *
+ * Expected: The second run succeeds instead of failing to check out the
+ * branch, and the branch then holds the second run's commit, made on top of
+ * the main branch rather than the first run's commit
+ *
+ * NOTE: This test requires Docker to be running
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { gitSafe } from '../../safe/index.js';
+import { isDockerAvailable, isRunnerImageAvailable, Executor } from '../../runner/index.js';
+import { WatcherLoop, HANDOFF_DIR, DIRS, readResult, taskBranchName } from '../../watcher/index.js';
+
+export interface TestResult {
+    name: string;
+    passed: boolean;
+    message: string;
+}
+
+const TASK_ID = 'rerun-deleted-result';
+
+/** Executor that writes a file naming the run, so every run has something to commit */
+function countingExecutor(): Executor {
+    let runs = 0;
+    return {
+        name: 'CountingExecutor',
+        async execute(_prompt, opts) {
+            runs++;
+            await fs.mkdir(path.join(opts.wsPath, 'src'), { recursive: true });
+            await fs.writeFile(path.join(opts.wsPath, 'src', 'run.txt'), `run ${runs}\n`);
+            return {
+                exitCode: 0,
+                stdout: '',
+                stderr: '',
+                timedOut: false,
+                outputBytes: { stdout: 0, stderr: 0 },
+                outputTruncated: false,
+                durationMs: 0,
+                outcome: 'completed'
+            };
+        },
+        async abort() {
+            // Nothing in flight
+        }
+    };
+}
+
+export async function runRerunDeletedResultTest(testDir: string): Promise<TestResult> {
+    const name = 'Rerun Deleted Result';
+    const repoPath = path.join(testDir, 'rerun-deleted-result-repo');
+    const handoffPath = path.join(repoPath, HANDOFF_DIR);
+
+    try {
+        // Check Docker availability
+        const dockerOk = await isDockerAvailable();
+        if (!dockerOk) {
+            return {
+                name,
+                passed: false,
+                message: 'Docker not available - cannot run rerun deleted result test'
+            };
+        }
+
+        const imageOk = await isRunnerImageAvailable();
+        if (!imageOk) {
+            return {
+                name,
+                passed: false,
+                message: 'bridge-runner:dev image not found - build it first'
+            };
+        }
+
+        // Create a clean test repo with .ai-handoff ignored
+        await fs.mkdir(repoPath, { recursive: true });
+        await gitSafe.init(repoPath);
+        const executor = countingExecutor();
+        const watcher = new WatcherLoop({ repoPath, singlePass: true, executor });
+        await watcher.init();
+        await gitSafe.addAll(repoPath);
+        const initialCommit = await gitSafe.commit(repoPath, 'Initial commit', { name: 'Harness', email: 'harness@localhost' });
+
+        const task = JSON.stringify({
+            id: TASK_ID,
+            created: new Date().toISOString(),
+            title: 'Write the run number',
+            prompt: 'Write src/run.txt',
+            scope: ['src'],
+            verify: []
+        });
+        const taskPath = path.join(handoffPath, DIRS.tasks, `${TASK_ID}.json`);
+        const resultsDir = path.join(handoffPath, DIRS.results);
+
+        // First run
+        await fs.writeFile(taskPath, task);
+        await watcher.run();
+        const first = await readResult(resultsDir, TASK_ID, repoPath);
+        if (first?.exitPath !== 'completed_success') {
+            return {
+                name,
+                passed: false,
+                message: `First run ended with ${first?.exitPath ?? 'no result'}`
+            };
+        }
+        const firstHead = await gitSafe.branchHead(repoPath, taskBranchName(TASK_ID));
+
+        // Delete the result and re-add the task, as the daily workflow guide says
+        await fs.rm(path.join(resultsDir, `${TASK_ID}.json`));
+        await fs.writeFile(taskPath, task);
+        await watcher.run();
+
+        const second = await readResult(resultsDir, TASK_ID, repoPath);
+        if (second?.exitPath !== 'completed_success') {
+            return {
+                name,
+                passed: false,
+                message: `Re-run ended with ${second?.exitPath ?? 'no result'}: ${second?.reason ?? ''}`
+            };
+        }
+
+        const secondHead = await gitSafe.branchHead(repoPath, taskBranchName(TASK_ID));
+        const parent = secondHead
+            ? (await gitSafe.create(repoPath).raw(['rev-parse', `${secondHead}^`])).trim()
+            : null;
+        if (!secondHead || secondHead === firstHead || parent !== initialCommit) {
+            return {
+                name,
+                passed: false,
+                message: `Branch was not reset for the re-run (head ${secondHead}, parent ${parent})`
+            };
+        }
+
+        return {
+            name,
+            passed: true,
+            message: 'Re-run after deleting the result committed afresh on a reset branch'
+        };
+    } catch (err) {
+        return {
+            name,
+            passed: false,
+            message: `Test error: ${err instanceof Error ? err.message : String(err)}`
+        };
+    }
+}
@@ -0,0 +1,162 @@
+/**
+ * Retry Logs Test
+ *
+ * Proves: Each attempt of a retried task keeps its own verify logs
+ *
+ * Attack scenario:
+ * 1. A verify step prints more than fits in the result, naming the attempt,
+ *    and fails
+ * 2. The task's retry block runs it a second time
+ *
+ * Expected: logs/ holds one log per attempt, each with that attempt's
+ * output, and the result points at the last attempt's log
+ *
+ * NOTE: This test requires Docker to be running
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { gitSafe } from '../../safe/index.js';
+import { isDockerAvailable, isRunnerImageAvailable, Executor } from '../../runner/index.js';
+import { WatcherLoop, HANDOFF_DIR, DIRS, MAX_OUTPUT_BYTES, readResult } from '../../watcher/index.js';
+
+export interface TestResult {
+    name: string;
+    passed: boolean;
+    message: string;
+}
+
+const TASK_ID = 'retry-logs';
+const ATTEMPTS = 2;
+
+/** Executor that writes the attempt number into the worktree for the verify step to print */
+function attemptExecutor(): Executor {
+    let attempt = 0;
+    return {
+        name: 'AttemptExecutor',
+        async execute(_prompt, opts) {
+            attempt++;
+            await fs.mkdir(path.join(opts.wsPath, 'src'), { recursive: true });
+            await fs.writeFile(path.join(opts.wsPath, 'src', 'attempt.txt'), `${attempt}\n`);
+            return {
+                exitCode: 0,
+                stdout: '',
+                stderr: '',
+                timedOut: false,
+                outputBytes: { stdout: 0, stderr: 0 },
+                outputTruncated: false,
+                durationMs: 0,
+                outcome: 'completed'
+            };
+        },
+        async abort() {
+            // Nothing in flight
+        }
+    };
+}
+
+export async function runRetryLogsTest(testDir: string): Promise<TestResult> {
+    const name = 'Retry Logs';
+    const repoPath = path.join(testDir, 'retry-logs-repo');
+    const handoffPath = path.join(repoPath, HANDOFF_DIR);
+
+    try {
+        // Check Docker availability
+        const dockerOk = await isDockerAvailable();
+        if (!dockerOk) {
+            return {
+                name,
+                passed: false,
+                message: 'Docker not available - cannot run retry logs test'
+            };
+        }
+
+        const imageOk = await isRunnerImageAvailable();
+        if (!imageOk) {
+            return {
+                name,
+                passed: false,
+                message: 'bridge-runner:dev image not found - build it first'
+            };
+        }
+
+        // Create a clean test repo with .ai-handoff ignored
+        await fs.mkdir(repoPath, { recursive: true });
+        await gitSafe.init(repoPath);
+        const watcher = new WatcherLoop({ repoPath, singlePass: true, executor: attemptExecutor() });
+        await watcher.init();
+        await gitSafe.addAll(repoPath);
+        await gitSafe.commit(repoPath, 'Initial commit', { name: 'Harness', email: 'harness@localhost' });
+
+        const script = [
+            'n=$(cat src/attempt.txt)',
+            `yes "output of attempt $n" | head -c ${MAX_OUTPUT_BYTES * 2}`,
+            'exit 1'
+        ].join('; ');
+        const task = {
+            id: TASK_ID,
+            created: new Date().toISOString(),
+            title: 'Fail loudly, twice',
+            prompt: 'Change nothing',
+            scope: ['src'],
+            verify: [{ cmd: 'sh', args: ['-c', script] }],
+            retry: { maxAttempts: ATTEMPTS, backoffMs: 100, retryOn: ['verify_failed'] }
+        };
+        await fs.writeFile(path.join(handoffPath, DIRS.tasks, `${TASK_ID}.json`), JSON.stringify(task));
+
+        await watcher.run();
+
+        const result = await readResult(path.join(handoffPath, DIRS.results), TASK_ID, repoPath);
+        if (result?.attempts?.length !== ATTEMPTS) {
+            return {
+                name,
+                passed: false,
+                message: `Expected ${ATTEMPTS} attempts, got ${result?.attempts?.length ?? 'no result'}`
+            };
+        }
+
+        const logsDir = path.join(handoffPath, DIRS.logs);
+        const logs = (await fs.readdir(logsDir)).filter(f => f.startsWith(`${TASK_ID}_`) && f.includes('_stdout'));
+        if (logs.length !== ATTEMPTS) {
+            return {
+                name,
+                passed: false,
+                message: `Expected ${ATTEMPTS} stdout logs, found ${logs.length}: ${logs.join(', ')}`
+            };
+        }
+
+        const contents = await Promise.all(logs.map(f => fs.readFile(path.join(logsDir, f), 'utf8')));
+        for (let attempt = 1; attempt <= ATTEMPTS; attempt++) {
+            const marker = `output of attempt ${attempt}\n`;
+            if (contents.filter(c => c.startsWith(marker)).length !== 1) {
+                return {
+                    name,
+                    passed: false,
+                    message: `Attempt ${attempt}'s output is not in a log of its own`
+                };
+            }
+        }
+
+        const lastLog = result.verifyResults[0]?.stdoutLog;
+        const lastContent = lastLog && contents[logs.indexOf(lastLog)];
+        if (!lastContent?.startsWith(`output of attempt ${ATTEMPTS}\n`)) {
+            return {
+                name,
+                passed: false,
+                message: `Result points at ${lastLog ?? 'no log'}, not the last attempt's log`
+            };
+        }
+
+        return {
+            name,
+            passed: true,
+            message: `${ATTEMPTS} attempts kept ${ATTEMPTS} separate logs: ${logs.join(', ')}`
+        };
+    } catch (err) {
+        return {
+            name,
+            passed: false,
+            message: `Test error: ${err instanceof Error ? err.message : String(err)}`
+        };
+    }
+}
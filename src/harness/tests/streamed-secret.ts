@@ -0,0 +1,169 @@
+/**
+ * Streamed Secret Test
+ *
+ * Proves: A command that prints a secret is stopped at once, and its
+ * output never reaches disk
+ *
+ * Attack scenario:
+ * 1. A verify step writes a secret to stderr in two pieces, with stdout
+ *    output in between (each stream must be scanned on its own)
+ * 2. The step then keeps running instead of exiting
+ *
+ * Expected: The step is killed long before it would exit, the task ends
+ * with secret_detected, and no file under .ai-handoff contains the secret
+ *
+ * NOTE: This test requires Docker to be running
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { gitSafe } from '../../safe/index.js';
+import { isDockerAvailable, isRunnerImageAvailable, Executor } from '../../runner/index.js';
+import { WatcherLoop, HANDOFF_DIR, DIRS } from '../../watcher/index.js';
+
+export interface TestResult {
+    name: string;
+    passed: boolean;
+    message: string;
+}
+
+/** Printed in two writes, so the secret only appears whole in the output */
+const SECRET_HEAD = 'ghp_abcdefghijklmnopq';
+const SECRET_TAIL = 'rstuvwxyz0123456789';
+const SECRET = SECRET_HEAD + SECRET_TAIL;
+
+/** How long the command would keep running if it were not stopped */
+const KEEPS_RUNNING_SEC = 60;
+
+/** Executor that changes nothing, so only the verify step produces output */
+const noopExecutor: Executor = {
+    name: 'NoopExecutor',
+    async execute() {
+        return {
+            exitCode: 0,
+            stdout: '',
+            stderr: '',
+            timedOut: false,
+            outputBytes: { stdout: 0, stderr: 0 },
+            outputTruncated: false,
+            durationMs: 0,
+            outcome: 'completed'
+        };
+    },
+    async abort() {
+        // Nothing in flight
+    }
+};
+
+export async function runStreamedSecretTest(testDir: string): Promise<TestResult> {
+    const name = 'Streamed Secret';
+    const repoPath = path.join(testDir, 'streamed-secret-repo');
+    const handoffPath = path.join(repoPath, HANDOFF_DIR);
+
+    try {
+        // Check Docker availability
+        const dockerOk = await isDockerAvailable();
+        if (!dockerOk) {
+            return {
+                name,
+                passed: false,
+                message: 'Docker not available - cannot run streamed secret test'
+            };
+        }
+
+        const imageOk = await isRunnerImageAvailable();
+        if (!imageOk) {
+            return {
+                name,
+                passed: false,
+                message: 'bridge-runner:dev image not found - build it first'
+            };
+        }
+
+        // Create a clean test repo with .ai-handoff ignored
+        await fs.mkdir(repoPath, { recursive: true });
+        await gitSafe.init(repoPath);
+        const watcher = new WatcherLoop({ repoPath, singlePass: true, executor: noopExecutor });
+        await watcher.init();
+        await gitSafe.addAll(repoPath);
+        await gitSafe.commit(repoPath, 'Initial commit', { name: 'Harness', email: 'harness@localhost' });
+
+        const script = [
+            'echo building',
+            `printf 'token=${SECRET_HEAD}' >&2`,
+            'sleep 1',
+            'echo still building',
+            `printf '${SECRET_TAIL}\\n' >&2`,
+            `sleep ${KEEPS_RUNNING_SEC}`
+        ].join('; ');
+        const task = {
+            id: 'streamed-secret',
+            created: new Date().toISOString(),
+            title: 'Print a secret and keep running',
+            prompt: 'Change nothing',
+            scope: ['src'],
+            verify: [{ cmd: 'sh', args: ['-c', script], timeoutSec: KEEPS_RUNNING_SEC * 2 }]
+        };
+        await fs.writeFile(path.join(handoffPath, DIRS.tasks, `${task.id}.json`), JSON.stringify(task));
+
+        const startTime = Date.now();
+        await watcher.run();
+        const elapsedMs = Date.now() - startTime;
+
+        const result = JSON.parse(
+            await fs.readFile(path.join(handoffPath, DIRS.results, `${task.id}.json`), 'utf8')
+        );
+        if (result.exitPath !== 'secret_detected') {
+            return {
+                name,
+                passed: false,
+                message: `Secret not detected in streamed output (task ended with ${result.exitPath})`
+            };
+        }
+
+        if (elapsedMs >= KEEPS_RUNNING_SEC * 1000) {
+            return {
+                name,
+                passed: false,
+                message: `Command was not stopped: task took ${elapsedMs}ms`
+            };
+        }
+
+        const leaked = await findFilesContaining(handoffPath, SECRET);
+        if (leaked.length > 0) {
+            return {
+                name,
+                passed: false,
+                message: `CRITICAL: Secret written to disk: ${leaked.map(f => path.relative(handoffPath, f)).join(', ')}`
+            };
+        }
+
+        return {
+            name,
+            passed: true,
+            message: `Command stopped after ${elapsedMs}ms; no output or log reached disk`
+        };
+    } catch (err) {
+        return {
+            name,
+            passed: false,
+            message: `Test error: ${err instanceof Error ? err.message : String(err)}`
+        };
+    }
+}
+
+/**
+ * Files under a directory whose content includes a string
+ */
+async function findFilesContaining(dir: string, needle: string): Promise<string[]> {
+    const found: string[] = [];
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            found.push(...await findFilesContaining(fullPath, needle));
+        } else if (entry.isFile() && (await fs.readFile(fullPath, 'utf8')).includes(needle)) {
+            found.push(fullPath);
+        }
+    }
+    return found;
+}
@@ -0,0 +1,127 @@
+/**
+ * ResourceBudget - Global CPU/memory budget shared by concurrent containers
+ *
+ * Each container reserves its limits before it starts and returns them when
+ * it exits. Requests are served first-come first-served, so a large request
+ * is not starved by a stream of small ones. A request larger than the whole
+ * budget is clamped to it (it then runs alone instead of never running).
+ */
+
+import * as os from 'node:os';
+
+/** Resource limits for one container, or for the whole budget */
+export interface ContainerLimits {
+    /** CPUs (docker --cpus) */
+    cpus: number;
+    /** Memory in MB (docker --memory) */
+    memoryMb: number;
+}
+
+/** Default per-container limits (BLUEPRINT Part 2) */
+export const DEFAULT_CONTAINER_LIMITS: ContainerLimits = {
+    cpus: 2,
+    memoryMb: 2048
+};
+
+/**
+ * Default global budget: all host CPUs and three quarters of host memory
+ */
+export function defaultBudgetLimits(): ContainerLimits {
+    return {
+        cpus: os.cpus().length,
+        memoryMb: Math.floor((os.totalmem() / 1024 / 1024) * 0.75)
+    };
+}
+
+export class ResourceBudget {
+    private readonly total: ContainerLimits;
+    private used: ContainerLimits = { cpus: 0, memoryMb: 0 };
+    private readonly waiters: Array<{ request: ContainerLimits; grant: () => void }> = [];
+
+    constructor(total: ContainerLimits = defaultBudgetLimits()) {
+        this.total = total;
+    }
+
+    /**
+     * Reserve resources, waiting until they are free
+     *
+     * @param signal - Gives up waiting when aborted
+     * @returns A function that returns the reservation (call exactly once),
+     *          or null if the signal aborted before the resources were free
+     */
+    async acquire(limits: ContainerLimits, signal?: AbortSignal): Promise<(() => void) | null> {
+        if (signal?.aborted) {
+            return null;
+        }
+
+        const request: ContainerLimits = {
+            cpus: Math.min(limits.cpus, this.total.cpus),
+            memoryMb: Math.min(limits.memoryMb, this.total.memoryMb)
+        };
+
+        if (this.waiters.length > 0 || !this.fits(request)) {
+            const granted = await new Promise<boolean>(resolve => {
+                const waiter = {
+                    request,
+                    grant: () => {
+                        signal?.removeEventListener('abort', onAbort);
+                        resolve(true);
+                    }
+                };
+                const onAbort = (): void => {
+                    const index = this.waiters.indexOf(waiter);
+                    if (index !== -1) {
+                        this.waiters.splice(index, 1);
+                        // A smaller request behind this one may fit now
+                        this.drain();
+                    }
+                    resolve(false);
+                };
+                signal?.addEventListener('abort', onAbort, { once: true });
+                this.waiters.push(waiter);
+            });
+            if (!granted) {
+                return null;
+            }
+        } else {
+            this.take(request);
+        }
+
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+            this.used = {
+                cpus: this.used.cpus - request.cpus,
+                memoryMb: this.used.memoryMb - request.memoryMb
+            };
+            this.drain();
+        };
+    }
+
+    /** Resources currently reserved */
+    get inUse(): ContainerLimits {
+        return { ...this.used };
+    }
+
+    private fits(request: ContainerLimits): boolean {
+        return this.used.cpus + request.cpus <= this.total.cpus
+            && this.used.memoryMb + request.memoryMb <= this.total.memoryMb;
+    }
+
+    private take(request: ContainerLimits): void {
+        this.used = {
+            cpus: this.used.cpus + request.cpus,
+            memoryMb: this.used.memoryMb + request.memoryMb
+        };
+    }
+
+    /** Grant queued requests in order while they fit */
+    private drain(): void {
+        while (this.waiters.length > 0 && this.fits(this.waiters[0].request)) {
+            const waiter = this.waiters.shift()!;
+            this.take(waiter.request);
+            waiter.grant();
+        }
+    }
+}
@@ -9,31 +9,89 @@
  * - Only workspace mounted at /workspace:rw
  * - Non-root user execution
  * - Resource limits (memory, CPU, PIDs)
+ * - Bounded output kept in memory per stream (the rest is still scanned)
  */
 
 import { spawn } from 'node:child_process';
-import { Runner, RunnerOpts, RunResult, DEFAULT_TIMEOUT_MS, filterEnv } from './types.js';
+import { randomBytes } from 'node:crypto';
+import {
+    Runner,
+    RunnerOpts,
+    RunResult,
+    OutputListener,
+    OutputStream,
+    DEFAULT_TIMEOUT_MS,
+    DEFAULT_MAX_OUTPUT_BYTES,
+    filterEnv
+} from './types.js';
+import { ResourceBudget, ContainerLimits, DEFAULT_CONTAINER_LIMITS } from './budget.js';
 
 const DOCKER_IMAGE = 'bridge-runner:dev';
 
+export interface DockerRunnerOpts {
+    /** Per-container CPU/memory limits (default: 2 CPUs, 2048 MB) */
+    limits?: ContainerLimits;
+    /** Shared budget that containers reserve their limits from before starting */
+    budget?: ResourceBudget;
+    /** Output kept per stream in bytes; the rest is passed to onOutput but dropped (default: 10MB) */
+    maxOutputBytes?: number;
+}
+
 export class DockerRunner implements Runner {
     readonly name = 'DockerRunner';
     readonly isSecure = true;
 
     private readonly image: string;
+    private readonly limits: ContainerLimits;
+    private readonly budget: ResourceBudget | null;
+    private readonly maxOutputBytes: number;
+    /** Names of containers started by this runner that have not exited */
+    private readonly active = new Set<string>();
+    /** Aborted by abort(); no run starts after that */
+    private readonly shutdown = new AbortController();
 
-    constructor(image: string = DOCKER_IMAGE) {
+    constructor(image: string = DOCKER_IMAGE, opts: DockerRunnerOpts = {}) {
         this.image = image;
+        this.limits = opts.limits ?? DEFAULT_CONTAINER_LIMITS;
+        this.budget = opts.budget ?? null;
+        this.maxOutputBytes = opts.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
     }
 
     async run(cmd: string, args: string[], opts: RunnerOpts): Promise<RunResult> {
-        const timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        // Wait for room in the shared budget, but no longer than the expiry time allows
+        const signals = [this.shutdown.signal];
+        if (opts.signal) signals.push(opts.signal);
+        const expiry = opts.expiresAt !== undefined
+            ? AbortSignal.timeout(Math.max(0, opts.expiresAt - Date.now()))
+            : null;
+        const releaseBudget = this.budget
+            ? await this.budget.acquire(this.limits, AbortSignal.any(expiry ? [...signals, expiry] : signals))
+            : () => undefined;
+        const signal = AbortSignal.any(signals);
+
+        if (signal.aborted) {
+            releaseBudget?.();
+            return notStarted('Aborted before start', false);
+        }
+
+        // The timeout starts once we run, clamped to the expiry time
+        const timeoutMs = opts.expiresAt !== undefined
+            ? Math.min(opts.timeoutMs ?? DEFAULT_TIMEOUT_MS, opts.expiresAt - Date.now())
+            : opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        if (!releaseBudget || timeoutMs <= 0) {
+            releaseBudget?.();
+            return notStarted('Expired before start', true);
+        }
+
         const startTime = Date.now();
+        // Named so the container itself can be killed, not just the docker CLI
+        const containerName = `bridge-${process.pid}-${randomBytes(4).toString('hex')}`;
 
         // Build Docker args according to BLUEPRINT.md Part 2
         const dockerArgs = [
             'run',
             '--rm',
+            '--name', containerName,
             // Network isolation (prevents exfiltration)
             '--network=none',
             // Read-only container filesystem
@@ -44,8 +102,8 @@ export class DockerRunner implements Runner {
             '--security-opt=no-new-privileges:true',
             // Resource limits
             '--pids-limit=256',
-            '--memory=2g',
-            '--cpus=2',
+            `--memory=${this.limits.memoryMb}m`,
+            `--cpus=${this.limits.cpus}`,
             // Run as current user
             '--user', `${process.getuid?.() ?? 1000}:${process.getgid?.() ?? 1000}`,
             // Mount workspace
@@ -63,7 +121,28 @@ export class DockerRunner implements Runner {
             ...args
         ];
 
-        return this.spawn('docker', dockerArgs, timeoutMs, startTime);
+        const onAbort = (): void => {
+            void killContainer(containerName);
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+
+        this.active.add(containerName);
+        try {
+            return await this.spawn('docker', dockerArgs, timeoutMs, startTime, containerName, opts.onOutput);
+        } finally {
+            signal.removeEventListener('abort', onAbort);
+            this.active.delete(containerName);
+            releaseBudget();
+        }
+    }
+
+    /**
+     * Kill every container this runner still has running, and refuse new runs
+     * (including those still waiting for budget)
+     */
+    async abort(): Promise<void> {
+        this.shutdown.abort();
+        await Promise.all([...this.active].map(name => killContainer(name)));
     }
 
     private buildEnvArgs(env?: Record<string, string>): string[] {
@@ -81,12 +160,16 @@ export class DockerRunner implements Runner {
         command: string,
         args: string[],
         timeoutMs: number,
-        startTime: number
+        startTime: number,
+        containerName: string,
+        onOutput?: OutputListener
     ): Promise<RunResult> {
         return new Promise((resolve) => {
-            const stdout: Buffer[] = [];
-            const stderr: Buffer[] = [];
+            const output: Record<OutputStream, string[]> = { stdout: [], stderr: [] };
+            const outputBytes: Record<OutputStream, number> = { stdout: 0, stderr: 0 };
+            let outputTruncated = false;
             let timedOut = false;
+            let stopped = false;
 
             const proc = spawn(command, args, {
                 stdio: ['ignore', 'pipe', 'pipe'],
@@ -95,16 +178,37 @@ export class DockerRunner implements Runner {
 
             const timeout = setTimeout(() => {
                 timedOut = true;
+                void killContainer(containerName);
                 proc.kill('SIGKILL');
             }, timeoutMs);
 
-            proc.stdout?.on('data', (chunk: Buffer) => {
-                stdout.push(chunk);
-            });
+            for (const stream of ['stdout', 'stderr'] as const) {
+                // Decode as UTF-8 here so multi-byte characters never split across chunks
+                proc[stream]?.setEncoding('utf8');
+                proc[stream]?.on('data', (chunk: string) => {
+                    // Keep output up to the ceiling; past it, chunks are only seen by the listener
+                    const kept = Math.min(outputBytes[stream], this.maxOutputBytes);
+                    const chunkBytes = Buffer.byteLength(chunk, 'utf8');
+                    outputBytes[stream] += chunkBytes;
 
-            proc.stderr?.on('data', (chunk: Buffer) => {
-                stderr.push(chunk);
-            });
+                    if (kept + chunkBytes <= this.maxOutputBytes) {
+                        output[stream].push(chunk);
+                    } else {
+                        outputTruncated = true;
+                        if (kept < this.maxOutputBytes) {
+                            output[stream].push(
+                                Buffer.from(chunk, 'utf8').subarray(0, this.maxOutputBytes - kept).toString('utf8')
+                            );
+                        }
+                    }
+
+                    if (onOutput?.(stream, chunk) === 'stop' && !stopped) {
+                        stopped = true;
+                        void killContainer(containerName);
+                        proc.kill('SIGKILL');
+                    }
+                });
+            }
 
             proc.on('close', (code) => {
                 clearTimeout(timeout);
@@ -112,9 +216,12 @@ export class DockerRunner implements Runner {
 
                 resolve({
                     exitCode: code ?? 1,
-                    stdout: Buffer.concat(stdout).toString('utf-8'),
-                    stderr: Buffer.concat(stderr).toString('utf-8'),
+                    stdout: output.stdout.join(''),
+                    stderr: output.stderr.join(''),
                     timedOut,
+                    stopped,
+                    outputBytes,
+                    outputTruncated,
                     durationMs
                 });
             });
@@ -128,6 +235,8 @@ export class DockerRunner implements Runner {
                     stdout: '',
                     stderr: err.message,
                     timedOut: false,
+                    outputBytes,
+                    outputTruncated,
                     durationMs
                 });
             });
@@ -135,6 +244,32 @@ export class DockerRunner implements Runner {
     }
 }
 
+/**
+ * Result of a run that never started
+ */
+function notStarted(reason: string, timedOut: boolean): RunResult {
+    return {
+        exitCode: 1,
+        stdout: '',
+        stderr: reason,
+        timedOut,
+        outputBytes: { stdout: 0, stderr: 0 },
+        outputTruncated: false,
+        durationMs: 0
+    };
+}
+
+/**
+ * Kill a container by name (ignores containers that already exited)
+ */
+function killContainer(name: string): Promise<void> {
+    return new Promise((resolve) => {
+        const proc = spawn('docker', ['kill', name], { stdio: 'ignore' });
+        proc.on('close', () => resolve());
+        proc.on('error', () => resolve());
+    });
+}
+
 /**
  * Check if Docker is available on this system
  */
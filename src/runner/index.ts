@@ -1,3 +1,8 @@
-export { DEFAULT_TIMEOUT_MS, ALLOWED_ENV_VARS, filterEnv } from './types.js';
-export type { Runner, RunnerOpts, RunResult } from './types.js';
+export { DEFAULT_TIMEOUT_MS, DEFAULT_EXECUTOR_TIMEOUT_MS, DEFAULT_MAX_OUTPUT_BYTES, ALLOWED_ENV_VARS, filterEnv } from './types.js';
+export type { Runner, RunnerOpts, RunResult, OutputStream, OutputListener, Executor, ExecutorOpts, ExecResult, ExecOutcome } from './types.js';
 export { DockerRunner, isDockerAvailable, isRunnerImageAvailable } from './dockerRunner.js';
+export type { DockerRunnerOpts } from './dockerRunner.js';
+export { ResourceBudget, DEFAULT_CONTAINER_LIMITS, defaultBudgetLimits } from './budget.js';
+export type { ContainerLimits } from './budget.js';
+export { OpenCodeExecutor } from './opencodeExecutor.js';
+export type { OpenCodeExecutorOpts } from './opencodeExecutor.js';
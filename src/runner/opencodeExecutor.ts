@@ -0,0 +1,66 @@
+/**
+ * OpenCodeExecutor - Runs the OpenCode agent against a worktree
+ * 
+ * The prompt is handed to `opencode run` inside the sandboxed runner,
+ * so the agent only ever sees the mounted workspace. The run is
+ * classified as completed, timed out or crashed for the watcher loop.
+ */
+
+import { DockerRunner } from './dockerRunner.js';
+import {
+    Runner,
+    Executor,
+    ExecutorOpts,
+    ExecResult,
+    ExecOutcome,
+    DEFAULT_EXECUTOR_TIMEOUT_MS
+} from './types.js';
+
+export interface OpenCodeExecutorOpts {
+    /** Executable inside the runner image (default: opencode) */
+    cmd?: string;
+    /** Arguments placed before the prompt (default: ['run']) */
+    args?: string[];
+    /** Default timeout when the caller does not pass one */
+    timeoutMs?: number;
+}
+
+export class OpenCodeExecutor implements Executor {
+    readonly name = 'OpenCodeExecutor';
+
+    private readonly runner: Runner;
+    private readonly cmd: string;
+    private readonly args: string[];
+    private readonly timeoutMs: number;
+
+    constructor(runner: Runner = new DockerRunner(), opts: OpenCodeExecutorOpts = {}) {
+        this.runner = runner;
+        this.cmd = opts.cmd ?? 'opencode';
+        this.args = opts.args ?? ['run'];
+        this.timeoutMs = opts.timeoutMs ?? DEFAULT_EXECUTOR_TIMEOUT_MS;
+    }
+
+    async execute(prompt: string, opts: ExecutorOpts): Promise<ExecResult> {
+        const result = await this.runner.run(this.cmd, [...this.args, prompt], {
+            wsPath: opts.wsPath,
+            env: opts.env,
+            timeoutMs: opts.timeoutMs ?? this.timeoutMs,
+            expiresAt: opts.expiresAt,
+            signal: opts.signal,
+            onOutput: opts.onOutput
+        });
+
+        let outcome: ExecOutcome = 'completed';
+        if (result.timedOut) {
+            outcome = 'timeout';
+        } else if (result.exitCode !== 0) {
+            outcome = 'crashed';
+        }
+
+        return { ...result, outcome };
+    }
+
+    async abort(): Promise<void> {
+        await this.runner.abort();
+    }
+}
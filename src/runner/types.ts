@@ -2,6 +2,15 @@
  * Runner types - Interface for command execution backends
  */
 
+/** Output stream of a command */
+export type OutputStream = 'stdout' | 'stderr';
+
+/**
+ * Receives a command's output as it arrives, decoded as UTF-8.
+ * Return 'stop' to kill the command (e.g. a secret was seen).
+ */
+export type OutputListener = (stream: OutputStream, chunk: string) => void | 'stop';
+
 export interface RunnerOpts {
     /** Path to workspace being operated on */
     wsPath: string;
@@ -9,8 +18,14 @@ export interface RunnerOpts {
     env?: Record<string, string>;
     /** Timeout in milliseconds */
     timeoutMs?: number;
+    /** Time (ms since the epoch) the command must end by; clamps timeoutMs once it starts */
+    expiresAt?: number;
     /** Working directory inside the container/workspace */
     cwd?: string;
+    /** Kills the command when aborted (e.g. the task was cancelled) */
+    signal?: AbortSignal;
+    /** Called with each chunk of output while the command runs */
+    onOutput?: OutputListener;
 }
 
 export interface RunResult {
@@ -22,6 +37,12 @@ export interface RunResult {
     stderr: string;
     /** Whether the command timed out */
     timedOut: boolean;
+    /** Whether the output listener stopped the command */
+    stopped?: boolean;
+    /** Bytes each stream produced, including any beyond the output ceiling */
+    outputBytes: Record<OutputStream, number>;
+    /** Whether stdout or stderr was cut off at the output ceiling */
+    outputTruncated: boolean;
     /** Duration in milliseconds */
     durationMs: number;
 }
@@ -30,6 +51,9 @@ export interface Runner {
     /** Execute a command */
     run(cmd: string, args: string[], opts: RunnerOpts): Promise<RunResult>;
 
+    /** Kill all in-flight commands and refuse new ones; their run() calls resolve as failed */
+    abort(): Promise<void>;
+
     /** Name of this runner for logging */
     readonly name: string;
 
@@ -40,6 +64,9 @@ export interface Runner {
 /** Default timeout for commands */
 export const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
 
+/** Default output kept in memory per stream; the rest is only scanned */
+export const DEFAULT_MAX_OUTPUT_BYTES = 10 * 1024 * 1024; // 10MB
+
 /** Allowlisted environment variables that can be passed to runners */
 export const ALLOWED_ENV_VARS = [
     'CI',
@@ -64,3 +91,40 @@ export function filterEnv(env: Record<string, string | undefined>): Record<strin
     }
     return filtered;
 }
+
+export interface ExecutorOpts {
+    /** Path to workspace the executor edits */
+    wsPath: string;
+    /** Timeout in milliseconds (default: DEFAULT_EXECUTOR_TIMEOUT_MS) */
+    timeoutMs?: number;
+    /** Time (ms since the epoch) the execution must end by; clamps timeoutMs once it starts */
+    expiresAt?: number;
+    /** Environment variables to pass through (allowlisted) */
+    env?: Record<string, string>;
+    /** Kills the execution when aborted (e.g. the task was cancelled) */
+    signal?: AbortSignal;
+    /** Called with each chunk of output while the executor runs */
+    onOutput?: OutputListener;
+}
+
+/** How an executor run ended */
+export type ExecOutcome = 'completed' | 'timeout' | 'crashed';
+
+export interface ExecResult extends RunResult {
+    /** Classified outcome of the run */
+    outcome: ExecOutcome;
+}
+
+export interface Executor {
+    /** Hand a task prompt to the executor, which edits files in the workspace */
+    execute(prompt: string, opts: ExecutorOpts): Promise<ExecResult>;
+
+    /** Kill an in-flight execution */
+    abort(): Promise<void>;
+
+    /** Name of this executor for logging */
+    readonly name: string;
+}
+
+/** Default timeout for the executor stage */
+export const DEFAULT_EXECUTOR_TIMEOUT_MS = 15 * 60 * 1000; // 15 minutes
@@ -136,6 +136,51 @@ export const fsSafe = {
         }
     },
 
+    /**
+     * Create a file only if it does not exist yet (lock files).
+     * Content is written to a temp file and hard-linked into place, so the
+     * file never appears partially written. Returns false if it already exists.
+     */
+    async createExclusive(filePath: string, content: string, root: string): Promise<boolean> {
+        const resolvedPath = path.resolve(filePath);
+
+        if (!fsSafe.isContained(resolvedPath, root)) {
+            throw new PathEscapeError(`Path ${filePath} escapes root ${root}`);
+        }
+
+        await fsSafe.validateParentChain(filePath, root);
+        await fs.promises.mkdir(path.dirname(resolvedPath), { recursive: true });
+
+        const tmpName = `${resolvedPath}.${randomBytes(8).toString('hex')}.tmp`;
+        await fs.promises.writeFile(tmpName, content, { encoding: 'utf-8', mode: 0o644 });
+
+        try {
+            await fs.promises.link(tmpName, resolvedPath);
+            return true;
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === 'EEXIST') {
+                return false;
+            }
+            throw err;
+        } finally {
+            await fs.promises.unlink(tmpName).catch(() => undefined);
+        }
+    },
+
+    /**
+     * Rename a file within the confined root.
+     */
+    async rename(fromPath: string, toPath: string, root: string): Promise<void> {
+        for (const p of [fromPath, toPath]) {
+            if (!fsSafe.isContained(path.resolve(p), root)) {
+                throw new PathEscapeError(`Path ${p} escapes root ${root}`);
+            }
+            await fsSafe.validateParentChain(p, root);
+        }
+
+        await fs.promises.rename(path.resolve(fromPath), path.resolve(toPath));
+    },
+
     /**
      * Delete a file safely within the confined root.
      */
@@ -196,6 +241,35 @@ export const fsSafe = {
         }
     },
 
+    /**
+     * Stat a path (without following symlinks) within the confined root.
+     */
+    async stat(filePath: string, root: string): Promise<fs.Stats> {
+        const resolvedPath = path.resolve(filePath);
+
+        if (!fsSafe.isContained(resolvedPath, root)) {
+            throw new PathEscapeError(`Path ${filePath} escapes root ${root}`);
+        }
+
+        return fs.promises.lstat(resolvedPath);
+    },
+
+    /**
+     * Watch a directory within the confined root for changes.
+     * The listener receives the changed entry name (may be null on some platforms).
+     */
+    watch(dirPath: string, root: string, listener: (fileName: string | null) => void): fs.FSWatcher {
+        const resolvedPath = path.resolve(dirPath);
+
+        if (!fsSafe.isContained(resolvedPath, root)) {
+            throw new PathEscapeError(`Path ${dirPath} escapes root ${root}`);
+        }
+
+        return fs.watch(resolvedPath, { persistent: false }, (_event, fileName) => {
+            listener(fileName ? fileName.toString() : null);
+        });
+    },
+
     /**
      * List directory contents safely.
      */
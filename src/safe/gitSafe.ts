@@ -8,11 +8,14 @@
  * - Uses simple-git for structured, safe parsing
  */
 
-import { simpleGit, SimpleGit, SimpleGitOptions, StatusResult } from 'simple-git';
+import { simpleGit, SimpleGit, SimpleGitOptions, StatusResult, DiffResult } from 'simple-git';
 import * as path from 'node:path';
 
 const DEFAULT_TIMEOUT_MS = 30_000; // 30 seconds
-const MAX_DIFF_SIZE = 10 * 1024 * 1024; // 10 MB
+export const MAX_DIFF_SIZE = 10 * 1024 * 1024; // 10 MB
+
+/** Appended to a diff that was cut off at MAX_DIFF_SIZE */
+export const DIFF_TRUNCATED_MARKER = '\n... [truncated, diff too large]';
 
 export class GitTimeoutError extends Error {
     constructor(message: string) {
@@ -28,10 +31,20 @@ export class GitConfinementError extends Error {
     }
 }
 
+/** Author/committer identity used for commits made by the watcher */
+export interface GitIdentity {
+    name: string;
+    email: string;
+}
+
 /**
  * Creates a configured simple-git instance with safety guards.
  */
-function createSafeGit(wsPath: string, timeoutMs: number = DEFAULT_TIMEOUT_MS): SimpleGit {
+function createSafeGit(
+    wsPath: string,
+    timeoutMs: number = DEFAULT_TIMEOUT_MS,
+    extraConfig: string[] = []
+): SimpleGit {
     const resolvedPath = path.resolve(wsPath);
 
     const options: Partial<SimpleGitOptions> = {
@@ -46,7 +59,8 @@ function createSafeGit(wsPath: string, timeoutMs: number = DEFAULT_TIMEOUT_MS):
             'core.hooksPath=/dev/null',
             // Additional safety settings
             'advice.detachedHead=false',
-            'gc.auto=0'
+            'gc.auto=0',
+            ...extraConfig
         ]
     };
 
@@ -80,20 +94,40 @@ export const gitSafe = {
         const diffOutput = await git.diff(args);
 
         if (diffOutput.length > MAX_DIFF_SIZE) {
-            return diffOutput.slice(0, MAX_DIFF_SIZE) + '\n... [truncated, diff too large]';
+            return diffOutput.slice(0, MAX_DIFF_SIZE) + DIFF_TRUNCATED_MARKER;
         }
 
         return diffOutput;
     },
 
+    /**
+     * Get the staged diff for secret scanning: binary files as text and no size cap,
+     * so it covers everything a commit would contain. Never write it anywhere.
+     */
+    async stagedDiffForScan(wsPath: string, timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<string> {
+        const git = createSafeGit(wsPath, timeoutMs);
+        return git.raw(['diff', '--cached', '--text', '--no-color', '--no-ext-diff']);
+    },
+
+    /**
+     * Get a per-file summary (diffstat) for staged/unstaged changes.
+     */
+    async diffSummary(wsPath: string, staged: boolean = false, timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<DiffResult> {
+        const git = createSafeGit(wsPath, timeoutMs);
+        const args = staged ? ['--cached'] : [];
+        return git.diffSummary(args);
+    },
+
     /**
      * Create a git worktree.
+     * With resetBranch, an existing branch is reset to HEAD (-B) instead of failing.
      */
     async worktreeAdd(
         mainRepoPath: string,
         worktreePath: string,
         branch: string,
-        timeoutMs: number = DEFAULT_TIMEOUT_MS
+        timeoutMs: number = DEFAULT_TIMEOUT_MS,
+        resetBranch: boolean = false
     ): Promise<void> {
         const resolvedMain = path.resolve(mainRepoPath);
         const resolvedWorktree = path.resolve(worktreePath);
@@ -102,7 +136,7 @@ export const gitSafe = {
         const git = createSafeGit(resolvedMain, timeoutMs);
 
         // Create branch from current HEAD and add worktree
-        await git.raw(['worktree', 'add', '-b', branch, resolvedWorktree, 'HEAD']);
+        await git.raw(['worktree', 'add', resetBranch ? '-B' : '-b', branch, resolvedWorktree, 'HEAD']);
     },
 
     /**
@@ -122,6 +156,46 @@ export const gitSafe = {
         await git.raw(['worktree', 'remove', '--force', resolvedWorktree]);
     },
 
+    /**
+     * Prune worktree metadata whose directories no longer exist.
+     */
+    async worktreePrune(
+        mainRepoPath: string,
+        timeoutMs: number = DEFAULT_TIMEOUT_MS
+    ): Promise<void> {
+        const git = createSafeGit(path.resolve(mainRepoPath), timeoutMs);
+        await git.raw(['worktree', 'prune']);
+    },
+
+    /**
+     * Get the commit a local branch points at, or null if it does not exist.
+     */
+    async branchHead(
+        mainRepoPath: string,
+        branch: string,
+        timeoutMs: number = DEFAULT_TIMEOUT_MS
+    ): Promise<string | null> {
+        const git = createSafeGit(path.resolve(mainRepoPath), timeoutMs);
+        try {
+            const sha = await git.raw(['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`]);
+            return sha.trim() || null;
+        } catch {
+            return null;
+        }
+    },
+
+    /**
+     * Force-delete a local branch.
+     */
+    async deleteBranch(
+        mainRepoPath: string,
+        branch: string,
+        timeoutMs: number = DEFAULT_TIMEOUT_MS
+    ): Promise<void> {
+        const git = createSafeGit(path.resolve(mainRepoPath), timeoutMs);
+        await git.raw(['branch', '-D', branch]);
+    },
+
     /**
      * List all worktrees for a repo.
      */
@@ -143,16 +217,23 @@ export const gitSafe = {
     },
 
     /**
-     * Commit with a message.
+     * Commit staged changes with a message.
+     * Uses the given identity (if any) for author and committer, never signs.
+     * Returns the full SHA of the new commit.
      */
     async commit(
         wsPath: string,
         message: string,
+        identity?: GitIdentity,
         timeoutMs: number = DEFAULT_TIMEOUT_MS
     ): Promise<string> {
-        const git = createSafeGit(wsPath, timeoutMs);
-        const result = await git.commit(message);
-        return result.commit;
+        const identityConfig = identity
+            ? [`user.name=${identity.name}`, `user.email=${identity.email}`]
+            : [];
+        const git = createSafeGit(wsPath, timeoutMs, [...identityConfig, 'commit.gpgsign=false']);
+        await git.commit(message);
+        const sha = await git.revparse(['HEAD']);
+        return sha.trim();
     },
 
     /**
@@ -1,4 +1,5 @@
 export { fsSafe, PathEscapeError, SymlinkError } from './fsSafe.js';
-export { gitSafe, GitTimeoutError, GitConfinementError } from './gitSafe.js';
+export { gitSafe, GitTimeoutError, GitConfinementError, MAX_DIFF_SIZE, DIFF_TRUNCATED_MARKER } from './gitSafe.js';
+export type { GitIdentity } from './gitSafe.js';
 export { StreamScanner, CORE_PATTERNS } from './streamScanner.js';
 export type { ScanMatch, ScanResult } from './streamScanner.js';
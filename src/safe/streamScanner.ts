@@ -180,14 +180,9 @@ export class StreamScanner {
      * Use this for small strings where streaming isn't needed.
      */
     static scanString(text: string): ScanResult {
-        const scanner = new StreamScanner();
-        const result = scanner.scan(text);
-        const finalResult = scanner.finalize();
-
-        return {
-            matches: [...result.matches, ...finalResult.matches],
-            hasSecrets: result.hasSecrets || finalResult.hasSecrets
-        };
+        // One scan covers the whole text; finalize() would rescan its tail and
+        // report those matches again with shifted line numbers
+        return new StreamScanner().scan(text);
     }
 
     /**
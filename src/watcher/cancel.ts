@@ -0,0 +1,112 @@
+/**
+ * Task Cancellation
+ *
+ * A task is cancelled by dropping a marker at .ai-handoff/cancel/<id>.json,
+ * either with `bridge cancel <id>` or directly by the planner. The file may
+ * be empty or hold { "reason": "..." }. The watcher picks markers up on its
+ * next pass:
+ * - a queued task (or one dropped later) gets a cancelled result without running
+ * - a running task is aborted between steps and its container is killed
+ *
+ * The marker is removed once the task has a result. Markers whose name is
+ * not a valid task id are ignored.
+ */
+
+import { fsSafe } from '../safe/index.js';
+import * as path from 'node:path';
+import { DIRS } from './workspace.js';
+import { TASK_ID_PATTERN } from './task.js';
+
+export interface CancelRequest {
+    /** Task to cancel */
+    taskId: string;
+    /** When the marker was written (ISO-8601; file mtime if not given) */
+    requestedAt: string;
+    /** Optional reason given by the requester */
+    reason: string | null;
+}
+
+/**
+ * Path of a task's cancel marker
+ */
+export function cancelMarkerPath(handoffPath: string, taskId: string): string {
+    if (!TASK_ID_PATTERN.test(taskId)) {
+        throw new Error(`Invalid task id: ${taskId}`);
+    }
+    return path.join(handoffPath, DIRS.cancel, `${taskId}.json`);
+}
+
+/**
+ * Write a cancel marker for a task
+ */
+export async function requestCancel(
+    handoffPath: string,
+    taskId: string,
+    root: string,
+    reason?: string
+): Promise<CancelRequest> {
+    const request: CancelRequest = {
+        taskId,
+        requestedAt: new Date().toISOString(),
+        reason: reason ?? null
+    };
+    await fsSafe.writeAtomic(cancelMarkerPath(handoffPath, taskId), JSON.stringify(request, null, 2), root);
+    return request;
+}
+
+/**
+ * Read all cancel markers, by task ID
+ */
+export async function readCancelRequests(
+    handoffPath: string,
+    root: string
+): Promise<Map<string, CancelRequest>> {
+    const cancelDir = path.join(handoffPath, DIRS.cancel);
+    const requests = new Map<string, CancelRequest>();
+
+    if (!(await fsSafe.exists(cancelDir, root))) {
+        return requests;
+    }
+
+    for (const file of await fsSafe.readdir(cancelDir, root)) {
+        if (!file.endsWith('.json')) continue;
+        const taskId = file.slice(0, -'.json'.length);
+        // No task can have this id, and it must never reach a path or branch name
+        if (!TASK_ID_PATTERN.test(taskId)) continue;
+        const markerPath = path.join(cancelDir, file);
+
+        try {
+            const stats = await fsSafe.stat(markerPath, root);
+            const content = (await fsSafe.read(markerPath, root)).trim();
+
+            // Planners may drop an empty marker; anything unparseable still cancels
+            let parsed: Record<string, unknown> = {};
+            try {
+                const value = content ? JSON.parse(content) : null;
+                if (value && typeof value === 'object') parsed = value;
+            } catch {
+                // Keep defaults
+            }
+
+            requests.set(taskId, {
+                taskId,
+                requestedAt: typeof parsed.requestedAt === 'string' ? parsed.requestedAt : stats.mtime.toISOString(),
+                reason: typeof parsed.reason === 'string' ? parsed.reason : null
+            });
+        } catch {
+            // Removed meanwhile
+        }
+    }
+
+    return requests;
+}
+
+/**
+ * Remove a task's cancel marker, if any
+ */
+export async function clearCancelRequest(handoffPath: string, taskId: string, root: string): Promise<void> {
+    const markerPath = cancelMarkerPath(handoffPath, taskId);
+    if (await fsSafe.exists(markerPath, root)) {
+        await fsSafe.unlink(markerPath, root);
+    }
+}
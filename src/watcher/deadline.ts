@@ -0,0 +1,45 @@
+/**
+ * Task Deadline
+ *
+ * Bounds a task as a whole (executor plus every verify step), on top of
+ * each step's own timeout. Every step is given the expiry time, and the
+ * runner clamps the step's timeout to it once the step actually starts
+ * (time spent waiting for resource budget counts against the deadline).
+ * Once that runs out the task ends with deadline_exceeded and the steps
+ * that never started are recorded as not run.
+ *
+ * The deadline starts with the first attempt and also covers retries.
+ */
+
+/** Default deadline when neither the task nor the config sets one */
+export const DEFAULT_TASK_DEADLINE_SEC = 60 * 60; // 1 hour
+
+/** Time consumed by one step, for the deadline_exceeded details */
+export interface StepTiming {
+    /** 'executor' or 'verify:<cmd>' */
+    step: string;
+    /** How the step ended */
+    status: 'completed' | 'timed_out' | 'not_run';
+    /** Time the step consumed in milliseconds (0 if not run) */
+    durationMs: number;
+}
+
+export class TaskDeadline {
+    readonly deadlineSec: number;
+    /** Time the deadline runs out, in ms since the epoch */
+    readonly expiresAt: number;
+
+    constructor(deadlineSec: number = DEFAULT_TASK_DEADLINE_SEC, startedAt: number = Date.now()) {
+        this.deadlineSec = deadlineSec;
+        this.expiresAt = startedAt + deadlineSec * 1000;
+    }
+
+    /** Milliseconds left (never negative) */
+    get remainingMs(): number {
+        return Math.max(0, this.expiresAt - Date.now());
+    }
+
+    get expired(): boolean {
+        return this.remainingMs === 0;
+    }
+}
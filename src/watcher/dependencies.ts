@@ -0,0 +1,63 @@
+/**
+ * Task Dependencies
+ *
+ * A task with dependsOn is held in tasks/ until every dependency has a
+ * success result, and is skipped (dependency_failed) as soon as any
+ * dependency has a result that is not a success. Skipped tasks get a real
+ * result, so their own dependents are skipped in turn.
+ *
+ * A dependency whose task file was moved to rejected/ does not count: it
+ * never ran and is expected to be fixed and resubmitted, so its dependents
+ * keep waiting. Any other schema_invalid result, such as a dependency cycle,
+ * fails them like any other failure.
+ */
+
+import { Task } from './task.js';
+import { Result, ExitDetailsByPath, readResult } from './result.js';
+import { awaitsResubmission } from './rejected.js';
+
+/** A dependency whose result is not a success */
+export type FailedDependency = ExitDetailsByPath['dependency_failed']['failed'][number];
+
+export type DependencyState =
+    | { state: 'ready' }
+    | { state: 'waiting'; pending: string[] }
+    | { state: 'failed'; failed: FailedDependency[] };
+
+/**
+ * Check a task's dependencies against results/
+ *
+ * @param resultsDir - Directory holding <id>.json results
+ * @param root - Root directory for safe file operations
+ */
+export async function checkDependencies(
+    task: Task,
+    resultsDir: string,
+    root: string
+): Promise<DependencyState> {
+    const pending: string[] = [];
+    const failed: FailedDependency[] = [];
+
+    for (const dep of task.dependsOn ?? []) {
+        let result: Result | null;
+        try {
+            result = await readResult(resultsDir, dep, root);
+        } catch {
+            result = null; // Being written; look again next cycle
+        }
+
+        if (!result || awaitsResubmission(result)) {
+            pending.push(dep);
+        } else if (result.status !== 'success') {
+            failed.push({ taskId: dep, status: result.status, exitPath: result.exitPath });
+        }
+    }
+
+    if (failed.length > 0) {
+        return { state: 'failed', failed };
+    }
+    if (pending.length > 0) {
+        return { state: 'waiting', pending };
+    }
+    return { state: 'ready' };
+}
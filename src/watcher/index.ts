@@ -1,15 +1,75 @@
-export { TaskValidationError, validateTask, loadTask, loadTasks, generateTaskId } from './task.js';
-export type { Task, VerifyCommand } from './task.js';
-export { writeResult, createSuccessResult, createFailedResult, createErrorResult, createSecretDetectedResult } from './result.js';
-export type { Result, ResultStatus, VerifyResult, SecretIncident, ExitPath } from './result.js';
+export {
+    TaskValidationError,
+    DependencyCycleError,
+    validateTask,
+    findTaskErrors,
+    loadTask,
+    loadTasks,
+    loadTaskEntries,
+    loadTaskEntry,
+    sortTaskEntries,
+    findDependencyCycles,
+    hashTaskContent,
+    generateTaskId,
+    taskFileFormat,
+    isTaskFile,
+    parseTaskContent,
+    TASK_FILE_EXTENSIONS,
+    TASK_SCHEMA_VERSION,
+    TASK_ID_PATTERN,
+    TASK_CREATED_PATTERN,
+    TASK_BOUNDS
+} from './task.js';
+export type { Task, TaskEntry, TaskFormat, VerifyCommand, TaskFieldError, NumberBounds } from './task.js';
+export { taskJsonSchema } from './taskSchema.js';
+export {
+    writeResult,
+    writeResultRecord,
+    readResult,
+    createSuccessResult,
+    createFailedResult,
+    createErrorResult,
+    createSecretDetectedResult,
+    createSkippedResult,
+    createDependencyFailedResult,
+    createCancelledResult,
+    attachTaskSnapshot
+} from './result.js';
+export type {
+    Result,
+    ResultStatus,
+    VerifyResult,
+    VerifySkipReason,
+    SecretIncident,
+    ExitPath,
+    ExitDetails,
+    ExitDetailsByPath,
+    AttemptRecord,
+    FailedExitPath,
+    PatchInfo,
+    PatchFileStat
+} from './result.js';
 export { WatcherLoop } from './loop.js';
 export type { WatcherConfig } from './loop.js';
 
 // V1 additions
 export { capOutput, formatOutputSummary, MAX_OUTPUT_BYTES } from './logcap.js';
 export type { CappedOutput } from './logcap.js';
-export { acquireWorkerLock, releaseWorkerLock, acquireTaskLock, releaseTaskLock, taskResultExists, WORKER_LOCK_FILE } from './lock.js';
-export type { LockMetadata } from './lock.js';
+export {
+    acquireLock,
+    renewLock,
+    releaseLock,
+    startHeartbeat,
+    isLockStale,
+    acquireWorkerLock,
+    releaseWorkerLock,
+    acquireTaskLock,
+    releaseTaskLock,
+    taskResultExists,
+    WORKER_LOCK_FILE,
+    DEFAULT_LEASE_MS
+} from './lock.js';
+export type { LockMetadata, LockHandle } from './lock.js';
 export {
     isRepoDirty,
     getCurrentBranch,
@@ -21,3 +81,48 @@ export {
     runPreflightChecks
 } from './safety.js';
 export type { PreflightResult } from './safety.js';
+
+// V1.5 additions
+export {
+    HANDOFF_DIR,
+    DIRS,
+    taskBranchName,
+    taskWorktreePath,
+    removeWorktree
+} from './workspace.js';
+export { TaskPickup } from './pickup.js';
+export { checkDependencies } from './dependencies.js';
+export { TaskDeadline, DEFAULT_TASK_DEADLINE_SEC } from './deadline.js';
+export type { StepTiming } from './deadline.js';
+export { cancelMarkerPath, requestCancel, readCancelRequests, clearCancelRequest } from './cancel.js';
+export { rejectTaskFile, isInvalidTaskError } from './rejected.js';
+export type { CancelRequest } from './cancel.js';
+export {
+    RETRYABLE_EXIT_PATHS,
+    DEFAULT_RETRY_POLICY,
+    resolveRetryPolicy,
+    shouldRetry,
+    retryDelayMs
+} from './retry.js';
+export type { RetryPolicy, ResolvedRetryPolicy } from './retry.js';
+export {
+    DEFAULT_QUEUE,
+    QUEUES_FILE,
+    QUEUE_NAME_PATTERN,
+    taskQueue,
+    queueStatePath,
+    readQueueState,
+    updateQueueSettings
+} from './queues.js';
+export type { QueueSettings, QueueState } from './queues.js';
+export type { DependencyState, FailedDependency } from './dependencies.js';
+export type { PickupMode, TaskPickupOptions } from './pickup.js';
+export { detectOrphanedTasks, recoverOrphanedTask, runStartupSweep } from './recovery.js';
+export type {
+    RecoveryPolicy,
+    RecoveryOptions,
+    OrphanedTask,
+    RecoveryAction,
+    RecoveryRecord,
+    RecoveryReport
+} from './recovery.js';
@@ -1,19 +1,29 @@
 /**
  * Locking Utilities
- * 
+ *
  * Worker lock: Only one watcher runs at a time
  * Per-task lock: Prevents duplicate processing
- * 
+ *
+ * Locks are leases: the holder renews heartbeat_at while it works, and a
+ * lock is only stale once its heartbeat is older than lease_ms. Same-host
+ * holders whose pid is gone are stale immediately; other-host holders
+ * (shared filesystems) expire by heartbeat like everyone else. Hosts are
+ * assumed to have clocks in sync to well within lease_ms.
+ *
  * Protocol-compliant: Uses __worker__.lock naming
  */
 
 import { fsSafe } from '../safe/index.js';
 import * as path from 'node:path';
 import * as os from 'node:os';
+import { randomBytes } from 'node:crypto';
 
 /** Worker lock filename (protocol naming) */
 export const WORKER_LOCK_FILE = '__worker__.lock';
 
+/** Default lease length; heartbeats renew it every third of this */
+export const DEFAULT_LEASE_MS = 60 * 1000; // 1 minute
+
 /** Lock metadata stored in lock files */
 export interface LockMetadata {
     /** Process ID of lock holder */
@@ -22,126 +32,203 @@ export interface LockMetadata {
     host: string;
     /** When lock was acquired (ISO-8601) */
     created_at: string;
+    /** Unique ID of this acquisition (guards against releasing someone else's lock) */
+    lease_id: string;
+    /** Last heartbeat from the holder (ISO-8601) */
+    heartbeat_at: string;
+    /** Lease length in milliseconds; stale once heartbeat_at is older than this */
+    lease_ms: number;
     /** Task ID (for per-task locks only) */
     task_id?: string;
-    /** Timeout in seconds (for TTL, primarily V1.5) */
-    timeout_sec?: number;
+}
+
+/** A held lock */
+export interface LockHandle {
+    /** Path of the lock file */
+    path: string;
+    /** Metadata as last written by us */
+    metadata: LockMetadata;
 }
 
 /**
- * Acquire the worker lock
- * 
- * @param lockDir - Directory for lock files (.ai-handoff/locks/)
- * @param root - Root directory for safe file operations
- * @returns true if lock acquired, false if already locked
+ * Decide whether a lock's holder is gone
  */
-export async function acquireWorkerLock(
-    lockDir: string,
-    root: string
-): Promise<boolean> {
-    const lockPath = path.join(lockDir, WORKER_LOCK_FILE);
-
-    // Check if lock already exists
-    if (await fsSafe.exists(root, lockPath)) {
-        // Lock exists - check if valid (basic check, TTL in V1.5)
+export function isLockStale(metadata: Partial<LockMetadata>, now: number = Date.now()): boolean {
+    // Same host: a dead pid means the lease can never be renewed
+    if (metadata.host === os.hostname() && typeof metadata.pid === 'number') {
         try {
-            const content = await fsSafe.read(root, lockPath);
-            const metadata: LockMetadata = JSON.parse(content);
-
-            // Check if process is still alive (same host only)
-            if (metadata.host === os.hostname()) {
-                try {
-                    process.kill(metadata.pid, 0); // Check if process exists
-                    return false; // Process still running, lock is valid
-                } catch {
-                    // Process doesn't exist, stale lock - remove it
-                    await fsSafe.unlink(root, lockPath);
-                }
-            } else {
-                // Different host - cannot verify, assume valid
-                return false;
+            process.kill(metadata.pid, 0);
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === 'ESRCH') {
+                return true;
             }
-        } catch {
-            // Invalid lock file - remove it
-            await fsSafe.unlink(root, lockPath);
         }
     }
 
-    // Acquire lock
+    const heartbeat = new Date(metadata.heartbeat_at ?? metadata.created_at ?? 0).getTime();
+    const leaseMs = metadata.lease_ms ?? DEFAULT_LEASE_MS;
+    return Number.isNaN(heartbeat) || now - heartbeat > leaseMs;
+}
+
+/**
+ * Acquire a lock file
+ *
+ * @param lockPath - Path of the lock file
+ * @param root - Root directory for safe file operations
+ * @param opts - Lease length and task ID (for per-task locks)
+ * @returns The lock handle, or null if a live holder has it
+ */
+export async function acquireLock(
+    lockPath: string,
+    root: string,
+    opts: { leaseMs?: number; taskId?: string } = {}
+): Promise<LockHandle | null> {
+    const now = new Date().toISOString();
     const metadata: LockMetadata = {
         pid: process.pid,
         host: os.hostname(),
-        created_at: new Date().toISOString(),
+        created_at: now,
+        lease_id: randomBytes(8).toString('hex'),
+        heartbeat_at: now,
+        lease_ms: opts.leaseMs ?? DEFAULT_LEASE_MS,
+        task_id: opts.taskId
     };
+    const content = JSON.stringify(metadata, null, 2);
+
+    if (await fsSafe.createExclusive(lockPath, content, root)) {
+        return { path: lockPath, metadata };
+    }
+
+    // Held by someone: take it over only if their lease expired
+    if (!(await breakStaleLock(lockPath, root))) {
+        return null;
+    }
+
+    if (await fsSafe.createExclusive(lockPath, content, root)) {
+        return { path: lockPath, metadata };
+    }
+    return null;
+}
+
+/**
+ * Renew a lock's heartbeat
+ *
+ * Only a lease that has not run out is renewed: once it has, another holder
+ * may break it at any moment, and writing ours then could overwrite theirs.
+ * A write that lands after the lease ran out counts as lost for the same
+ * reason, as does a lock that no longer holds our lease once written.
+ *
+ * @returns false if the lock is no longer ours (expired and possibly taken over)
+ */
+export async function renewLock(handle: LockHandle, root: string): Promise<boolean> {
+    const expiresAt = new Date(handle.metadata.heartbeat_at).getTime() + handle.metadata.lease_ms;
+    if (Date.now() >= expiresAt) {
+        return false;
+    }
+
+    const current = await readLock(handle.path, root);
+    if (!current || current.lease_id !== handle.metadata.lease_id) {
+        return false;
+    }
+
+    const renewed = { ...handle.metadata, heartbeat_at: new Date().toISOString() };
+    await fsSafe.writeAtomic(handle.path, JSON.stringify(renewed, null, 2), root);
+    if (Date.now() >= expiresAt) {
+        return false;
+    }
 
-    await fsSafe.mkdir(root, lockDir);
-    await fsSafe.writeAtomic(root, lockPath, JSON.stringify(metadata, null, 2));
+    const written = await readLock(handle.path, root);
+    if (!written || written.lease_id !== renewed.lease_id) {
+        return false;
+    }
 
+    handle.metadata = renewed;
     return true;
 }
 
 /**
- * Release the worker lock
+ * Release a lock, but only if it is still ours
+ */
+export async function releaseLock(handle: LockHandle, root: string): Promise<void> {
+    const current = await readLock(handle.path, root);
+    if (current && current.lease_id === handle.metadata.lease_id) {
+        await fsSafe.unlink(handle.path, root);
+    }
+}
+
+/**
+ * Renew a lock periodically until the returned stop function is called
+ *
+ * @param onLost - Called once if the lock turns out to be taken over
  */
-export async function releaseWorkerLock(
+export function startHeartbeat(
+    handle: LockHandle,
+    root: string,
+    onLost: () => void
+): () => void {
+    const interval = setInterval(() => {
+        renewLock(handle, root)
+            .then(ok => {
+                if (!ok) {
+                    clearInterval(interval);
+                    onLost();
+                }
+            })
+            .catch(() => {
+                // Transient filesystem error: try again next beat
+            });
+    }, Math.max(1000, Math.floor(handle.metadata.lease_ms / 3)));
+
+    // Never keep the process alive just to renew a lock
+    interval.unref?.();
+
+    return () => clearInterval(interval);
+}
+
+/**
+ * Acquire the worker lock
+ *
+ * @param lockDir - Directory for lock files (.ai-handoff/locks/)
+ * @param root - Root directory for safe file operations
+ * @returns The lock handle, or null if another worker holds it
+ */
+export async function acquireWorkerLock(
     lockDir: string,
-    root: string
-): Promise<void> {
-    const lockPath = path.join(lockDir, WORKER_LOCK_FILE);
+    root: string,
+    leaseMs?: number
+): Promise<LockHandle | null> {
+    return acquireLock(path.join(lockDir, WORKER_LOCK_FILE), root, { leaseMs });
+}
 
-    if (await fsSafe.exists(root, lockPath)) {
-        await fsSafe.unlink(root, lockPath);
-    }
+/**
+ * Release the worker lock
+ */
+export async function releaseWorkerLock(handle: LockHandle, root: string): Promise<void> {
+    await releaseLock(handle, root);
 }
 
 /**
  * Acquire a per-task lock
- * 
+ *
  * @param lockDir - Directory for lock files
  * @param taskId - Task identifier
  * @param root - Root directory
- * @returns true if lock acquired, false if already locked
+ * @returns The lock handle, or null if the task is already claimed
  */
 export async function acquireTaskLock(
     lockDir: string,
     taskId: string,
-    root: string
-): Promise<boolean> {
-    const lockPath = path.join(lockDir, `${taskId}.lock`);
-
-    // Check if lock exists
-    if (await fsSafe.exists(root, lockPath)) {
-        return false; // Already locked (TTL handling in V1.5)
-    }
-
-    // Acquire lock
-    const metadata: LockMetadata = {
-        pid: process.pid,
-        host: os.hostname(),
-        created_at: new Date().toISOString(),
-        task_id: taskId,
-        timeout_sec: 1800, // 30 min default
-    };
-
-    await fsSafe.mkdir(root, lockDir);
-    await fsSafe.writeAtomic(root, lockPath, JSON.stringify(metadata, null, 2));
-
-    return true;
+    root: string,
+    leaseMs?: number
+): Promise<LockHandle | null> {
+    return acquireLock(path.join(lockDir, `${taskId}.lock`), root, { leaseMs, taskId });
 }
 
 /**
  * Release a per-task lock
  */
-export async function releaseTaskLock(
-    lockDir: string,
-    taskId: string,
-    root: string
-): Promise<void> {
-    const lockPath = path.join(lockDir, `${taskId}.lock`);
-
-    if (await fsSafe.exists(root, lockPath)) {
-        await fsSafe.unlink(root, lockPath);
-    }
+export async function releaseTaskLock(handle: LockHandle, root: string): Promise<void> {
+    await releaseLock(handle, root);
 }
 
 /**
@@ -153,5 +240,59 @@ export async function taskResultExists(
     root: string
 ): Promise<boolean> {
     const resultPath = path.join(resultsDir, `${taskId}.json`);
-    return fsSafe.exists(root, resultPath);
+    return fsSafe.exists(resultPath, root);
+}
+
+/**
+ * Read lock metadata, or null if the file is missing or unreadable
+ */
+async function readLock(lockPath: string, root: string): Promise<Partial<LockMetadata> | null> {
+    try {
+        return JSON.parse(await fsSafe.read(lockPath, root));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Remove an expired lock without racing another process doing the same.
+ * The lock is renamed aside first; if what we moved is not the lease we
+ * judged stale (someone re-acquired in between), it is put back.
+ *
+ * @returns true if the path is now free to acquire
+ */
+async function breakStaleLock(lockPath: string, root: string): Promise<boolean> {
+    let observed = await readLock(lockPath, root);
+    if (!observed) {
+        // Unreadable lock: judge staleness by file age instead
+        try {
+            const stats = await fsSafe.stat(lockPath, root);
+            observed = { heartbeat_at: stats.mtime.toISOString() };
+        } catch {
+            return true; // Released meanwhile
+        }
+    }
+
+    if (!isLockStale(observed)) {
+        return false;
+    }
+
+    const tombstone = `${lockPath}.${randomBytes(4).toString('hex')}.stale`;
+    try {
+        await fsSafe.rename(lockPath, tombstone, root);
+    } catch {
+        return true; // Already removed by someone else
+    }
+
+    const moved = await readLock(tombstone, root);
+    if (moved?.lease_id !== observed.lease_id) {
+        // We moved a fresh lock: restore it if the path is still free
+        await fsSafe.createExclusive(lockPath, await fsSafe.read(tombstone, root), root);
+        await fsSafe.unlink(tombstone, root);
+        return false;
+    }
+
+    console.log(`Removing stale lock ${path.basename(lockPath)} (pid ${observed.pid ?? '?'} on ${observed.host ?? '?'})`);
+    await fsSafe.unlink(tombstone, root);
+    return true;
 }
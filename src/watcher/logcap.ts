@@ -2,7 +2,8 @@
  * Log Capping Utility
  * 
  * Caps command output at 10KB per stream.
- * If truncated, writes full log to file.
+ * If truncated, writes the output to a log file, one per attempt. The log
+ * holds what the runner kept, which is itself capped (maxOutputBytes).
  */
 
 import { fsSafe, StreamScanner } from '../safe/index.js';
@@ -16,8 +17,8 @@ export interface CappedOutput {
     content: string;
     /** Whether content was truncated */
     truncated: boolean;
-    /** Path to full log file if truncated (null otherwise) */
-    fullLogPath: string | null;
+    /** Path to the log file if truncated (null otherwise) */
+    logPath: string | null;
     /** Whether secrets were detected */
     secretsDetected: boolean;
     /** Number of secrets found */
@@ -34,6 +35,7 @@ export interface CappedOutput {
  * @param output - Raw output string
  * @param logDir - Directory to write full logs (.ai-handoff/logs/)
  * @param taskId - Task identifier
+ * @param attempt - Attempt number (retries get their own logs)
  * @param cmdIndex - Command index (for multiple commands)
  * @param stream - 'stdout' or 'stderr'
  * @param root - Root directory for safe file operations
@@ -43,6 +45,7 @@ export async function capOutput(
     output: string,
     logDir: string,
     taskId: string,
+    attempt: number,
     cmdIndex: number,
     stream: 'stdout' | 'stderr',
     root: string
@@ -55,20 +58,20 @@ export async function capOutput(
     const outputBytes = Buffer.byteLength(output, 'utf8');
     const needsTruncation = outputBytes > MAX_OUTPUT_BYTES;
 
-    let fullLogPath: string | null = null;
+    let logPath: string | null = null;
     let content: string;
 
     if (needsTruncation) {
-        // Write full log to file
-        const logFileName = `${taskId}_${cmdIndex}_${stream}.log`;
-        fullLogPath = path.join(logDir, logFileName);
+        // Write the output as kept to a log file
+        const logFileName = `${taskId}_attempt${attempt}_${cmdIndex}_${stream}.log`;
+        logPath = path.join(logDir, logFileName);
 
-        await fsSafe.mkdir(root, logDir);
-        await fsSafe.writeAtomic(root, fullLogPath, output);
+        await fsSafe.mkdir(logDir, root);
+        await fsSafe.writeAtomic(logPath, output, root);
 
-        // Truncate for result
-        content = output.slice(0, MAX_OUTPUT_BYTES);
-        content += `\n\n[TRUNCATED - Full log: ${logFileName}]`;
+        // Truncate for result (a multi-byte character cut in half decodes as U+FFFD)
+        content = Buffer.from(output, 'utf8').subarray(0, MAX_OUTPUT_BYTES).toString('utf8');
+        content += `\n\n[TRUNCATED - Log: ${logFileName}]`;
     } else {
         content = output;
     }
@@ -76,7 +79,7 @@ export async function capOutput(
     return {
         content,
         truncated: needsTruncation,
-        fullLogPath,
+        logPath,
         secretsDetected,
         secretCount,
     };
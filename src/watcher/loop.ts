@@ -3,68 +3,186 @@
  * 
  * Handles:
  * - Worker lock acquisition
+ * - Task pickup (fs.watch with polling fallback)
+ * - Startup sweep for orphaned tasks
  * - Safety checks (dirty repo, scope enforcement)
- * - Task claiming and processing
+ * - Idempotency (skip tasks that already have a result)
+ * - Quarantine of invalid task files (rejected/ plus a schema_invalid result)
+ * - Dependency scheduling (dependsOn)
+ * - Priorities and named queues (pause/resume, per-queue limits)
+ * - Retries with backoff for transient failures
+ * - Cancellation via cancel markers (queued and running tasks)
+ * - Whole-task deadline across executor and verify steps
+ * - Task claiming (per-task locks) and concurrent processing
  * - Worktree creation and cleanup
+ * - Executor stage (OpenCode edits the worktree)
  * - Docker execution
- * - Output scanning with log capping
+ * - Patch capture (scanned before it touches disk)
+ * - Committing successful tasks on their feat/ai branch
+ * - Streaming output scan (stops a command at its first secret) and log capping
  * - Result writing
+ * - Graceful shutdown (drain, then abort the in-flight task)
  */
 
 import * as path from 'node:path';
-import { fsSafe, gitSafe, StreamScanner } from '../safe/index.js';
-import { DockerRunner, isDockerAvailable, isRunnerImageAvailable } from '../runner/index.js';
-import { Task, loadTasks } from './task.js';
+import {
+    fsSafe,
+    gitSafe,
+    StreamScanner,
+    ScanMatch,
+    GitIdentity,
+    MAX_DIFF_SIZE,
+    DIFF_TRUNCATED_MARKER
+} from '../safe/index.js';
+import {
+    DockerRunner,
+    ResourceBudget,
+    ContainerLimits,
+    OpenCodeExecutor,
+    Executor,
+    DEFAULT_EXECUTOR_TIMEOUT_MS,
+    OutputListener,
+    RunResult,
+    isDockerAvailable,
+    isRunnerImageAvailable
+} from '../runner/index.js';
+import { Task, TaskEntry, VerifyCommand, DependencyCycleError, findDependencyCycles } from './task.js';
+import { checkDependencies } from './dependencies.js';
+import { QueueState, readQueueState, taskQueue } from './queues.js';
+import { RetryPolicy, resolveRetryPolicy, shouldRetry, retryDelayMs } from './retry.js';
+import { CancelRequest, readCancelRequests, clearCancelRequest } from './cancel.js';
+import { TaskDeadline, StepTiming } from './deadline.js';
+import { TaskPickup, PickupMode } from './pickup.js';
 import {
     Result,
     VerifyResult,
+    VerifySkipReason,
     writeResult,
     createSuccessResult,
     createFailedResult,
     createErrorResult,
     createSecretDetectedResult,
-    SecretIncident
+    createSkippedResult,
+    createDependencyFailedResult,
+    createCancelledResult,
+    attachTaskSnapshot,
+    readResult,
+    writeResultRecord,
+    AttemptRecord,
+    SecretIncident,
+    PatchInfo
 } from './result.js';
 import { createHash } from 'node:crypto';
+import {
+    acquireWorkerLock,
+    releaseWorkerLock,
+    acquireTaskLock,
+    releaseTaskLock,
+    startHeartbeat,
+    taskResultExists,
+    LockHandle
+} from './lock.js';
+import {
+    HANDOFF_DIR,
+    DIRS,
+    taskBranchName,
+    taskWorktreePath,
+    removeWorktree,
+    runningSourceName,
+    findRunningSource
+} from './workspace.js';
+import { runStartupSweep, RecoveryOptions, RecoveryReport } from './recovery.js';
 import { isRepoDirty, validateScope, getChangedFiles, findSecretFiles } from './safety.js';
-// TODO: Integrate capOutput for log capping in command output handling
-// import { capOutput } from './logcap.js';
-
-const HANDOFF_DIR = '.ai-handoff';
-const DIRS = {
-    tasks: 'tasks',
-    running: 'running',
-    results: 'results',
-    patches: 'patches',
-    logs: 'logs',
-    locks: 'locks',
-    tmp: 'tmp',
-    meta: 'meta'
+import { capOutput, CappedOutput } from './logcap.js';
+import { rejectTaskFile, isInvalidTaskError } from './rejected.js';
+
+/** Skip records live under meta/ so they never replace a real result */
+const SKIPS_DIR = 'skips';
+
+const DEFAULT_BOT_IDENTITY: GitIdentity = {
+    name: 'Bridge Watcher',
+    email: 'bridge-watcher@localhost'
 };
 
-const WORKER_LOCK = '__worker__.lock';
-const LOCK_STALE_MS = 5 * 60 * 1000; // 5 minutes
+/** Default time an in-flight task gets to finish on shutdown */
+const DEFAULT_SHUTDOWN_GRACE_MS = 30_000;
+
 
 export interface WatcherConfig {
     /** Path to the app repository */
     repoPath: string;
     /** Whether to run in single-pass mode (process once and exit) */
     singlePass?: boolean;
-    /** Poll interval in ms (default: 2000) */
+    /** Notice new tasks via fs.watch (falls back to polling) or by polling only (default: watch) */
+    pickup?: PickupMode;
+    /** Poll interval in ms when polling (default: 2000) */
     pollIntervalMs?: number;
+    /** Time a task file must be unmodified before it is claimed, in ms (default: 250) */
+    pickupStableMs?: number;
+    /** Executor that edits the worktree (default: OpenCodeExecutor on the DockerRunner) */
+    executor?: Executor;
+    /** Timeout for the executor stage in ms (default: 15 minutes) */
+    executorTimeoutMs?: number;
+    /** Default whole-task deadline in seconds; a task's deadlineSec overrides it (default: 3600) */
+    taskDeadlineSec?: number;
+    /** Author/committer for task commits (default: Bridge Watcher <bridge-watcher@localhost>) */
+    botIdentity?: GitIdentity;
+    /** Re-run tasks even if a result already exists (default: false) */
+    force?: boolean;
+    /** Default retry policy; a task's retry block overrides it (default: no retry) */
+    retry?: RetryPolicy;
+    /** How orphaned tasks from a crashed run are handled (default: requeue) */
+    recovery?: RecoveryOptions;
+    /** Grace period for the in-flight task on shutdown in ms (default: 30000) */
+    shutdownGraceMs?: number;
+    /** Worker lock lease in ms; renewed by heartbeat while running (default: 60000) */
+    lockLeaseMs?: number;
+    /** Number of tasks processed at once (default: 1) */
+    concurrency?: number;
+    /** Per-queue limits on tasks in flight; meta/queues.json settings take precedence */
+    queueConcurrency?: Record<string, number>;
+    /** CPU/memory limits for each container (default: 2 CPUs, 2048 MB) */
+    containerLimits?: ContainerLimits;
+    /** Global CPU/memory budget shared by all containers (default: host CPUs, 75% of memory) */
+    resourceBudget?: ContainerLimits;
+    /** Output kept per stream of each command in bytes; beyond it output is scanned, then dropped (default: 10MB) */
+    maxOutputBytes?: number;
 }
 
 export class WatcherLoop {
     private readonly config: WatcherConfig;
     private readonly handoffPath: string;
     private readonly runner: DockerRunner;
+    private readonly executor: Executor;
     private running = false;
-    private workerLockPath: string | null = null;
+    private shuttingDown = false;
+    private aborting = false;
+    /** Processing + result writing of tasks in flight, by task ID */
+    private readonly inFlight = new Map<string, Promise<void>>();
+    /** Aborted with the CancelRequest when a task in flight is cancelled, by task ID */
+    private readonly cancellers = new Map<string, AbortController>();
+    /** Queue of each task in flight, by task ID */
+    private readonly inFlightQueues = new Map<string, string>();
+    /** Serializes worktree add/remove on the main repo */
+    private repoQueue: Promise<unknown> = Promise.resolve();
+    /** Notices new task files; exists while run() is active */
+    private pickup: TaskPickup | null = null;
+    /** Ends retry backoff sleeps early on shutdown */
+    private readonly backoffWakers = new Set<() => void>();
+    /** Tasks already reported as waiting on dependencies */
+    private readonly waitingLogged = new Set<string>();
+    private workerLock: LockHandle | null = null;
+    private stopHeartbeat: (() => void) | null = null;
 
     constructor(config: WatcherConfig) {
         this.config = config;
         this.handoffPath = path.join(config.repoPath, HANDOFF_DIR);
-        this.runner = new DockerRunner();
+        this.runner = new DockerRunner(undefined, {
+            limits: config.containerLimits,
+            budget: new ResourceBudget(config.resourceBudget),
+            maxOutputBytes: config.maxOutputBytes
+        });
+        this.executor = config.executor ?? new OpenCodeExecutor(this.runner);
     }
 
     /**
@@ -98,142 +216,397 @@ export class WatcherLoop {
     }
 
     /**
-     * Acquire worker lock
+     * Acquire worker lock and keep its lease alive
      */
     private async acquireWorkerLock(): Promise<boolean> {
-        const lockPath = path.join(this.handoffPath, DIRS.locks, WORKER_LOCK);
+        const lockDir = path.join(this.handoffPath, DIRS.locks);
 
         try {
-            // Check if lock exists and is stale
-            const exists = await fsSafe.exists(lockPath, this.config.repoPath);
-            if (exists) {
-                const content = await fsSafe.read(lockPath, this.config.repoPath);
-                const lockData = JSON.parse(content);
-                const lockTime = new Date(lockData.acquired).getTime();
-
-                if (Date.now() - lockTime > LOCK_STALE_MS) {
-                    // Stale lock, remove it
-                    console.log('Removing stale worker lock');
-                    await fsSafe.unlink(lockPath, this.config.repoPath);
-                } else {
-                    // Lock is held by another worker
-                    return false;
-                }
-            }
-
-            // Write our lock
-            const lockData = {
-                pid: process.pid,
-                acquired: new Date().toISOString(),
-                hostname: require('os').hostname()
-            };
-            await fsSafe.writeAtomic(lockPath, JSON.stringify(lockData, null, 2), this.config.repoPath);
-            this.workerLockPath = lockPath;
-            return true;
+            this.workerLock = await acquireWorkerLock(lockDir, this.config.repoPath, this.config.lockLeaseMs);
         } catch (err) {
             console.error('Failed to acquire worker lock:', err);
             return false;
         }
+
+        if (!this.workerLock) {
+            return false;
+        }
+
+        this.stopHeartbeat = startHeartbeat(this.workerLock, this.config.repoPath, () => {
+            // Another worker took over our expired lease; stop claiming tasks
+            console.error('Worker lock lost, stopping after current task');
+            this.workerLock = null;
+            this.stop();
+        });
+        return true;
     }
 
     /**
      * Release worker lock
      */
     private async releaseWorkerLock(): Promise<void> {
-        if (this.workerLockPath) {
+        this.stopHeartbeat?.();
+        this.stopHeartbeat = null;
+
+        if (this.workerLock) {
             try {
-                await fsSafe.unlink(this.workerLockPath, this.config.repoPath);
+                await releaseWorkerLock(this.workerLock, this.config.repoPath);
             } catch {
                 // Ignore errors during cleanup
             }
-            this.workerLockPath = null;
+            this.workerLock = null;
         }
     }
 
     /**
-     * Move task from one directory to another
+     * Move a task file from tasks/ to running/<id>.json.
+     * JSON files are moved as they are; YAML and Markdown tasks are stored as
+     * their normalized JSON, so running/<id>.json is always JSON. A file not
+     * named <id>.json is also kept as it was, so recovery can requeue it unchanged.
      */
-    private async moveTask(taskId: string, from: string, to: string): Promise<void> {
-        const fromPath = path.join(this.handoffPath, from, `${taskId}.json`);
-        const toPath = path.join(this.handoffPath, to, `${taskId}.json`);
+    private async moveToRunning(entry: TaskEntry): Promise<void> {
+        const { id } = entry.task;
+        const runningDir = path.join(this.handoffPath, DIRS.running);
+        const fromPath = path.join(this.handoffPath, DIRS.tasks, entry.file);
+        const original = await fsSafe.read(fromPath, this.config.repoPath);
 
-        const content = await fsSafe.read(fromPath, this.config.repoPath);
-        await fsSafe.writeAtomic(toPath, content, this.config.repoPath);
+        if (entry.file !== `${id}.json`) {
+            await fsSafe.writeAtomic(path.join(runningDir, runningSourceName(id, entry.file)), original, this.config.repoPath);
+        }
+        const content = entry.format === 'json' ? original : JSON.stringify(entry.task, null, 2);
+        await fsSafe.writeAtomic(path.join(runningDir, `${id}.json`), content, this.config.repoPath);
         await fsSafe.unlink(fromPath, this.config.repoPath);
     }
 
     /**
-     * Process a single task
+     * Move a task file that failed to load to rejected/, with a schema_invalid result.
+     * Other load failures (e.g. unreadable files) are only logged.
+     * @returns Whether the file was moved
+     */
+    private async rejectInvalidTask(filePath: string, err: unknown): Promise<boolean> {
+        if (!isInvalidTaskError(err)) {
+            console.error(`Cannot load task file ${path.basename(filePath)}:`, err instanceof Error ? err.message : err);
+            return false;
+        }
+
+        try {
+            await rejectTaskFile(this.handoffPath, filePath, err, this.config.repoPath);
+            return true;
+        } catch (rejectErr) {
+            console.error(
+                `Failed to reject task file ${path.basename(filePath)}:`,
+                rejectErr instanceof Error ? rejectErr.message : rejectErr
+            );
+            return false;
+        }
+    }
+
+    /**
+     * Record a skip if the task already has a result.
+     * A re-dropped task (same id, same content hash) is skipped as already processed;
+     * same id with different content is skipped too, since only force may replace a result.
+     * A schema_invalid result (the task never ran) does not count.
+     */
+    private async skipIfProcessed(entry: TaskEntry): Promise<boolean> {
+        const { task } = entry;
+        const resultsDir = path.join(this.handoffPath, DIRS.results);
+
+        if (!(await taskResultExists(resultsDir, task.id, this.config.repoPath))) {
+            return false;
+        }
+
+        let previous: Result | null = null;
+        try {
+            previous = await readResult(resultsDir, task.id, this.config.repoPath);
+        } catch {
+            // Unreadable result still counts as processed
+        }
+
+        // A rejected task never ran; its corrected version replaces the result
+        if (previous?.exitPath === 'schema_invalid') {
+            return false;
+        }
+
+        const sameContent = previous !== null && previous.taskHash === entry.sha256;
+        const reason = sameContent
+            ? `Task already processed (previous status: ${previous?.status})`
+            : `A result for ${task.id} already exists from different task content; set force to re-run`;
+
+        const skip = attachTaskSnapshot(
+            createSkippedResult(task.id, reason, previous?.status ?? null, sameContent),
+            task,
+            entry.sha256,
+            entry.format
+        );
+        await writeResultRecord(
+            skip,
+            path.join(this.handoffPath, DIRS.meta, SKIPS_DIR),
+            this.config.repoPath
+        );
+
+        // Consume the re-dropped file so it is not skipped again every poll
+        await fsSafe.unlink(path.join(this.handoffPath, DIRS.tasks, entry.file), this.config.repoPath);
+
+        console.log(`Skipping task ${task.id}: ${reason}`);
+        return true;
+    }
+
+    /**
+     * Process a single attempt at a task
+     *
+     * @param deadline - Whole-task deadline; every step's timeout is clamped to it
+     * @param attempt - Attempt number; retries find the task in running/ already
      */
-    private async processTask(task: Task): Promise<Result> {
+    private async processTask(
+        entry: TaskEntry,
+        deadline: TaskDeadline,
+        attempt: number = 1
+    ): Promise<Result> {
+        const { task } = entry;
         const startedAt = new Date();
-        const worktreePath = path.join(this.handoffPath, DIRS.tmp, `ws-${task.id}`);
-        const branchName = `feat/ai/${task.id}`;
+        const worktreePath = taskWorktreePath(this.handoffPath, task.id);
+        const branchName = taskBranchName(task.id);
+        const signal = this.cancellers.get(task.id)?.signal;
+        const steps: StepTiming[] = [];
 
         try {
             // Move task to running
-            await this.moveTask(task.id, DIRS.tasks, DIRS.running);
+            if (attempt === 1) {
+                await this.moveToRunning(entry);
+            }
+
+            // Create worktree for isolation. A task only runs when forced or when it has no
+            // result, so an existing branch is left from an earlier attempt or a deleted result: reset it
+            try {
+                await this.withRepo(() =>
+                    gitSafe.worktreeAdd(this.config.repoPath, worktreePath, branchName, undefined, true)
+                );
+            } catch (err) {
+                const message = err instanceof Error ? err.message : 'Unknown error';
+                await this.cleanupWorktree(worktreePath);
+                return createErrorResult(
+                    task.id,
+                    startedAt,
+                    `Could not create worktree on ${branchName}: ${message}`,
+                    'branch_checkout_failed',
+                    { branch: branchName, message }
+                );
+            }
+
+            if (this.aborting || signal?.aborted) {
+                return this.interruptTask(task.id, startedAt, worktreePath, 'checkout', signal);
+            }
+
+            if (deadline.expired) {
+                return this.exceedDeadline(task, startedAt, worktreePath, deadline, 'executor', steps, [], task.verify);
+            }
+
+            // Hand the prompt to the executor
+            const execScan = createOutputScan();
+            const execResult = await this.executor.execute(task.prompt, {
+                wsPath: worktreePath,
+                timeoutMs: this.config.executorTimeoutMs ?? DEFAULT_EXECUTOR_TIMEOUT_MS,
+                expiresAt: deadline.expiresAt,
+                signal,
+                onOutput: execScan.onOutput
+            });
+            steps.push({
+                step: 'executor',
+                status: execResult.outcome === 'timeout' ? 'timed_out' : 'completed',
+                durationMs: execResult.durationMs
+            });
+
+            if (this.aborting || signal?.aborted) {
+                return this.interruptTask(task.id, startedAt, worktreePath, 'executor', signal);
+            }
+
+            const execIncident = this.outputIncident(task.id, execScan, 'executor');
+            if (execIncident) {
+                await this.cleanupWorktree(worktreePath);
+                return createSecretDetectedResult(task.id, startedAt, execIncident);
+            }
+
+            // A timeout once the deadline is gone was the deadline's doing
+            if (execResult.outcome === 'timeout' && deadline.expired) {
+                return this.exceedDeadline(task, startedAt, worktreePath, deadline, 'executor', steps, [], task.verify);
+            }
+
+            if (execResult.outcome === 'timeout') {
+                await this.cleanupWorktree(worktreePath);
+                return createErrorResult(
+                    task.id,
+                    startedAt,
+                    `${this.executor.name} timed out after ${execResult.durationMs}ms`,
+                    'opencode_timeout',
+                    { executor: this.executor.name, durationMs: execResult.durationMs }
+                );
+            }
+
+            if (execResult.outcome === 'crashed') {
+                await this.cleanupWorktree(worktreePath);
+                return createErrorResult(
+                    task.id,
+                    startedAt,
+                    `${this.executor.name} exited with code ${execResult.exitCode}`,
+                    'opencode_crashed',
+                    { executor: this.executor.name, exitCode: execResult.exitCode }
+                );
+            }
+
+            // Capture the executor's changes (untracked files included) as a patch
+            await gitSafe.addAll(worktreePath);
+            const diff = await gitSafe.diff(worktreePath, true);
+
+            // Scan everything staged, not the patch: it is capped and shows binary files by name only
+            const patchIncident = this.scanPatch(task.id, await gitSafe.stagedDiffForScan(worktreePath));
+            if (patchIncident) {
+                // Never write a patch or commit that contains a secret
+                await this.cleanupWorktree(worktreePath);
+                return createSecretDetectedResult(task.id, startedAt, patchIncident);
+            }
+
+            // A cut-off patch would not match the commit; neither is kept
+            if (diff.endsWith(DIFF_TRUNCATED_MARKER)) {
+                await this.cleanupWorktree(worktreePath);
+                return createFailedResult(
+                    task.id,
+                    startedAt,
+                    'patch_too_large',
+                    { limitBytes: MAX_DIFF_SIZE },
+                    `Changes exceed the ${MAX_DIFF_SIZE} byte patch limit; nothing was committed`,
+                    []
+                );
+            }
 
-            // Create worktree for isolation
-            await gitSafe.worktreeAdd(this.config.repoPath, worktreePath, branchName);
+            const patch = await this.writePatch(task.id, worktreePath, diff);
 
-            // Run verification commands
+            // Run verification commands, one group at a time; steps in a group run concurrently
             const verifyResults: VerifyResult[] = [];
-            let allPassed = true;
+            let anyFailed = false;
+            // Set once a step with onFailure 'stop' fails; later on_success steps are skipped
+            let stopped = false;
 
-            for (const verify of task.verify) {
-                const expectedExit = verify.expectedExit ?? 0;
-                const timeoutMs = (verify.timeoutSec ?? 60) * 1000;
+            for (const group of groupVerifySteps(task.verify)) {
+                const first = group[0];
+                const phase = `verify:${group.map(g => verifyName(g.verify)).join('+')}`;
 
-                const result = await this.runner.run(verify.cmd, verify.args, {
-                    wsPath: worktreePath,
-                    timeoutMs
-                });
+                // Don't start new containers once an abort is underway
+                if (this.aborting || signal?.aborted) {
+                    return this.interruptTask(task.id, startedAt, worktreePath, phase, signal);
+                }
 
-                // Scan output for secrets
-                const scanner = new StreamScanner();
-                const stdoutScan = scanner.scan(result.stdout);
-                const stderrScan = scanner.scan(result.stderr);
-                const finalScan = scanner.finalize();
-
-                if (stdoutScan.hasSecrets || stderrScan.hasSecrets || finalScan.hasSecrets) {
-                    // Secret detected! Clean up immediately
-                    await this.cleanupWorktree(worktreePath);
-                    await fsSafe.unlink(
-                        path.join(this.handoffPath, DIRS.running, `${task.id}.json`),
-                        this.config.repoPath
+                if (deadline.expired) {
+                    return this.exceedDeadline(
+                        task, startedAt, worktreePath, deadline, phase,
+                        steps, verifyResults, task.verify.slice(first.index), patch
                     );
-
-                    const allMatches = [
-                        ...stdoutScan.matches,
-                        ...stderrScan.matches,
-                        ...finalScan.matches
-                    ];
-
-                    const incident: SecretIncident = {
-                        patterns: [...new Set(allMatches.map(m => m.pattern))],
-                        matchCount: allMatches.length,
-                        incidentHash: createHash('sha256')
-                            .update(task.id + allMatches.map(m => m.pattern).join(','))
-                            .digest('hex')
-                            .slice(0, 16)
-                    };
-
-                    return createSecretDetectedResult(task.id, startedAt, incident);
                 }
 
-                const passed = result.exitCode === expectedExit;
-                if (!passed) allPassed = false;
-
-                verifyResults.push({
-                    cmd: verify.cmd,
-                    args: verify.args,
-                    exitCode: result.exitCode,
-                    expectedExit,
-                    passed,
-                    durationMs: result.durationMs,
-                    outputTruncated: result.stdout.length > 100000 || result.stderr.length > 100000
+                // A secret in one step's output stops its siblings too
+                const groupStop = new AbortController();
+                const groupSignal = signal ? AbortSignal.any([signal, groupStop.signal]) : groupStop.signal;
+
+                // Conditions are evaluated once per group, from the outcome of earlier groups
+                const groupResults: VerifyResult[] = [];
+                const started = group.map(({ index, verify }): GroupRun<Promise<RunResult>> => {
+                    const when = verify.when ?? 'on_success';
+                    const skip: VerifySkipReason | null = when === 'on_success' && stopped ? 'stopped'
+                        : when === 'on_failure' && !anyFailed ? 'when'
+                        : null;
+                    if (skip) {
+                        return { state: 'skipped', index, verify, skip };
+                    }
+
+                    const scan = createOutputScan(() => groupStop.abort());
+                    const result = this.runner.run(verify.cmd, verify.args, {
+                        wsPath: worktreePath,
+                        timeoutMs: (verify.timeoutSec ?? 60) * 1000,
+                        expiresAt: deadline.expiresAt,
+                        signal: groupSignal,
+                        onOutput: scan.onOutput
+                    });
+                    return { state: 'started', index, verify, scan, result };
                 });
+                const runs = await Promise.all(started.map(async (run): Promise<GroupRun<RunResult>> => {
+                    if (run.state === 'skipped') return run;
+                    const result = await run.result;
+                    // Output held back at the end of a stream is only scanned once the step exits
+                    if (run.scan.matches().length > 0) groupStop.abort();
+                    return { ...run, result };
+                }));
+
+                if (this.aborting || signal?.aborted) {
+                    return this.interruptTask(task.id, startedAt, worktreePath, phase, signal);
+                }
+
+                // Output was scanned as it streamed in; a run with a secret was stopped
+                for (const run of runs) {
+                    const incident = run.state === 'started'
+                        && this.outputIncident(task.id, run.scan, `verify:${verifyName(run.verify)}`);
+                    if (incident) {
+                        // Secret detected! Clean up immediately
+                        await this.cleanupWorktree(worktreePath);
+                        return createSecretDetectedResult(task.id, startedAt, incident);
+                    }
+                }
+
+                let deadlineHit = false;
+                for (const run of runs) {
+                    const { index, verify } = run;
+                    const step = `verify:${verifyName(verify)}`;
+
+                    if (run.state === 'skipped') {
+                        groupResults.push(skippedVerifyResult(verify, run.skip));
+                        steps.push({ step, status: 'not_run', durationMs: 0 });
+                        continue;
+                    }
+
+                    const { result } = run;
+
+                    const expectedExit = verify.expectedExit ?? 0;
+                    const passed = result.exitCode === expectedExit;
+                    if (!passed) {
+                        anyFailed = true;
+                        if ((verify.onFailure ?? 'stop') === 'stop') stopped = true;
+                    }
+
+                    // Output was scanned above, so it is safe to keep and log
+                    const [stdout, stderr] = await Promise.all([
+                        this.captureOutput(task.id, attempt, index, result.stdout, 'stdout'),
+                        this.captureOutput(task.id, attempt, index, result.stderr, 'stderr')
+                    ]);
+
+                    groupResults.push({
+                        name: verifyName(verify),
+                        cmd: verify.cmd,
+                        args: verify.args,
+                        exitCode: result.exitCode,
+                        expectedExit,
+                        passed,
+                        durationMs: result.durationMs,
+                        outputTruncated: result.outputTruncated || stdout.truncated || stderr.truncated,
+                        stdout: stdout.content,
+                        stderr: stderr.content,
+                        stdoutLog: stdout.logPath && path.basename(stdout.logPath),
+                        stderrLog: stderr.logPath && path.basename(stderr.logPath)
+                    });
+                    steps.push({
+                        step,
+                        status: result.timedOut ? 'timed_out' : 'completed',
+                        durationMs: result.durationMs
+                    });
+
+                    if (result.timedOut && deadline.expired) deadlineHit = true;
+                }
+                verifyResults.push(...groupResults);
+
+                if (deadlineHit) {
+                    const last = group[group.length - 1];
+                    return this.exceedDeadline(
+                        task, startedAt, worktreePath, deadline, phase,
+                        steps, verifyResults, task.verify.slice(last.index + 1), patch
+                    );
+                }
             }
 
             // V1: Check for scope violations
@@ -241,15 +614,14 @@ export class WatcherLoop {
             const scopeValidation = validateScope(task.scope, changedFiles);
             if (!scopeValidation.passed) {
                 await this.cleanupWorktree(worktreePath);
-                await fsSafe.unlink(
-                    path.join(this.handoffPath, DIRS.running, `${task.id}.json`),
-                    this.config.repoPath
-                );
                 return createFailedResult(
                     task.id,
                     startedAt,
+                    'scope_violation',
+                    { scope: task.scope, violations: scopeValidation.violations },
                     `Scope violation: files outside scope were modified: ${scopeValidation.violations.join(', ')}`,
-                    verifyResults
+                    verifyResults,
+                    patch
                 );
             }
 
@@ -257,82 +629,261 @@ export class WatcherLoop {
             const secretFiles = findSecretFiles(changedFiles);
             if (secretFiles.length > 0) {
                 await this.cleanupWorktree(worktreePath);
-                await fsSafe.unlink(
-                    path.join(this.handoffPath, DIRS.running, `${task.id}.json`),
-                    this.config.repoPath
-                );
                 return createFailedResult(
                     task.id,
                     startedAt,
+                    'secretless_violation',
+                    { files: secretFiles },
                     `Secretless contract violation: forbidden files created: ${secretFiles.join(', ')}`,
-                    verifyResults
+                    verifyResults,
+                    patch
                 );
             }
 
-            // Cleanup worktree
-            await this.cleanupWorktree(worktreePath);
+            if (!anyFailed) {
+                // Commit what was staged and scanned above; the branch outlives the worktree
+                const commitSha = patch.filesChanged > 0
+                    ? await gitSafe.commit(
+                        worktreePath,
+                        this.buildCommitMessage(task),
+                        this.config.botIdentity ?? DEFAULT_BOT_IDENTITY
+                    )
+                    : undefined;
 
-            // Remove from running
-            await fsSafe.unlink(
-                path.join(this.handoffPath, DIRS.running, `${task.id}.json`),
-                this.config.repoPath
-            );
-
-            if (allPassed) {
-                return createSuccessResult(task.id, startedAt, verifyResults, branchName);
+                await this.cleanupWorktree(worktreePath);
+                return createSuccessResult(task.id, startedAt, verifyResults, branchName, commitSha, patch);
             } else {
-                const failedVerify = verifyResults.filter(v => !v.passed);
+                await this.cleanupWorktree(worktreePath);
+
+                const failedVerify = verifyResults.filter(v => !v.passed && !v.skipped);
                 return createFailedResult(
                     task.id,
                     startedAt,
-                    `Verification failed: ${failedVerify.map(v => v.cmd).join(', ')}`,
-                    verifyResults
+                    'verify_failed',
+                    {
+                        failed: failedVerify.map(v => ({
+                            name: v.name,
+                            cmd: v.cmd,
+                            args: v.args,
+                            exitCode: v.exitCode,
+                            expectedExit: v.expectedExit
+                        }))
+                    },
+                    `Verification failed: ${failedVerify.map(v => v.name).join(', ')}`,
+                    verifyResults,
+                    patch
                 );
             }
         } catch (err) {
             // Cleanup on error
             await this.cleanupWorktree(worktreePath);
 
-            try {
-                await fsSafe.unlink(
-                    path.join(this.handoffPath, DIRS.running, `${task.id}.json`),
-                    this.config.repoPath
-                );
-            } catch {
-                // Ignore cleanup errors
+            const message = err instanceof Error ? err.message : 'Unknown error';
+            return createErrorResult(task.id, startedAt, message, 'internal_error', { message });
+        }
+    }
+
+    /**
+     * End a task whose deadline ran out: the steps that did not start are
+     * recorded as not run, and every step's time goes into the details
+     */
+    private async exceedDeadline(
+        task: Task,
+        startedAt: Date,
+        worktreePath: string,
+        deadline: TaskDeadline,
+        phase: string,
+        steps: StepTiming[],
+        verifyResults: VerifyResult[],
+        notRun: VerifyCommand[],
+        patch?: PatchInfo
+    ): Promise<Result> {
+        await this.cleanupWorktree(worktreePath);
+
+        const allSteps: StepTiming[] = [
+            ...steps,
+            ...(steps.length === 0 ? [{ step: 'executor', status: 'not_run' as const, durationMs: 0 }] : []),
+            ...notRun.map(v => ({ step: `verify:${verifyName(v)}`, status: 'not_run' as const, durationMs: 0 }))
+        ];
+
+        const result = createErrorResult(
+            task.id,
+            startedAt,
+            `Task deadline of ${deadline.deadlineSec}s exceeded during ${phase}`,
+            'deadline_exceeded',
+            {
+                deadlineSec: deadline.deadlineSec,
+                elapsedMs: Date.now() - startedAt.getTime(),
+                phase,
+                steps: allSteps
             }
+        );
+
+        return {
+            ...result,
+            verifyResults: [...verifyResults, ...notRun.map(v => skippedVerifyResult(v, 'deadline'))],
+            patch
+        };
+    }
+
+    /**
+     * Clean up after a task stopped by cancellation or shutdown
+     *
+     * @param signal - The task's cancel signal; if aborted, the result is cancelled
+     */
+    private async interruptTask(
+        taskId: string,
+        startedAt: Date,
+        worktreePath: string,
+        phase: string,
+        signal?: AbortSignal
+    ): Promise<Result> {
+        await this.cleanupWorktree(worktreePath);
+
+        if (signal?.aborted) {
+            return createCancelledResult(taskId, startedAt, phase, signal.reason as CancelRequest);
+        }
+        return createErrorResult(
+            taskId,
+            startedAt,
+            `Task interrupted by shutdown during ${phase}`,
+            'interrupted',
+            { phase }
+        );
+    }
+
+    /**
+     * Turn the matches of a run's output scan into an incident record
+     * (pattern names only), or null if the output was clean.
+     */
+    private outputIncident(taskId: string, scan: OutputScan, source: string): SecretIncident | null {
+        const matches = scan.matches();
+        if (matches.length === 0) {
+            return null;
+        }
+
+        return this.createIncident(taskId, matches, [source]);
+    }
+
+    /**
+     * Scan a patch for secrets, attributing each match to the file it touches.
+     */
+    private scanPatch(taskId: string, diff: string): SecretIncident | null {
+        const scan = StreamScanner.scanString(diff);
+        if (!scan.hasSecrets) {
+            return null;
+        }
+
+        const lines = patchLineLocations(diff);
+        const locations = scan.matches.map(m => lines[m.line - 1] ?? 'patch');
+
+        return this.createIncident(taskId, scan.matches, [...new Set(locations)]);
+    }
+
+    /**
+     * Build a safe incident record (no raw secrets)
+     */
+    private createIncident(taskId: string, matches: ScanMatch[], locations: string[]): SecretIncident {
+        return {
+            patterns: [...new Set(matches.map(m => m.pattern))],
+            matchCount: matches.length,
+            incidentHash: createHash('sha256')
+                .update(taskId + matches.map(m => m.pattern).join(','))
+                .digest('hex')
+                .slice(0, 16),
+            locations
+        };
+    }
+
+    /**
+     * Cap a verify step's output stream, keeping what the runner kept in logs/ if capped.
+     * Only call this once the output has passed the secret scan.
+     */
+    private captureOutput(
+        taskId: string,
+        attempt: number,
+        verifyIndex: number,
+        output: string,
+        stream: 'stdout' | 'stderr'
+    ): Promise<CappedOutput> {
+        return capOutput(
+            output,
+            path.join(this.handoffPath, DIRS.logs),
+            taskId,
+            attempt,
+            verifyIndex,
+            stream,
+            this.config.repoPath
+        );
+    }
+
+    /**
+     * Write the post-executor patch and summarize it
+     */
+    private async writePatch(taskId: string, worktreePath: string, diff: string): Promise<PatchInfo> {
+        const file = `${taskId}_post.patch`;
+        await fsSafe.writeAtomic(
+            path.join(this.handoffPath, DIRS.patches, file),
+            diff,
+            this.config.repoPath
+        );
+
+        const summary = await gitSafe.diffSummary(worktreePath, true);
+        return {
+            file,
+            filesChanged: summary.changed,
+            insertions: summary.insertions,
+            deletions: summary.deletions,
+            files: summary.files.map(f => ({
+                file: f.file,
+                insertions: f.binary ? 0 : f.insertions,
+                deletions: f.binary ? 0 : f.deletions,
+                binary: f.binary
+            }))
+        };
+    }
+
+    /**
+     * Build the commit message for a task's changes
+     */
+    private buildCommitMessage(task: Task): string {
+        return `${task.title}\n\nTask-Id: ${task.id}\nCommitted-By: bridge-watcher`;
+    }
 
-            return createErrorResult(
-                task.id,
-                startedAt,
-                err instanceof Error ? err.message : 'Unknown error'
+    /**
+     * Remove the task's running/ entry (and any copy of its original file) once its result is on disk.
+     * Until then a crash leaves running/<id>.json behind for recovery.
+     */
+    private async clearRunning(taskId: string): Promise<void> {
+        const source = await findRunningSource(this.handoffPath, taskId, this.config.repoPath);
+        if (source) {
+            await fsSafe.unlink(
+                path.join(this.handoffPath, DIRS.running, runningSourceName(taskId, source)),
+                this.config.repoPath
             );
         }
+
+        const runningPath = path.join(this.handoffPath, DIRS.running, `${taskId}.json`);
+        if (await fsSafe.exists(runningPath, this.config.repoPath)) {
+            await fsSafe.unlink(runningPath, this.config.repoPath);
+        }
     }
 
     /**
      * Clean up a worktree
      */
     private async cleanupWorktree(worktreePath: string): Promise<void> {
-        try {
-            // Only clean up within the tmp directory
-            const tmpDir = path.join(this.handoffPath, DIRS.tmp);
-            if (!fsSafe.isContained(worktreePath, tmpDir)) {
-                throw new Error(`Refusing to clean up path outside tmp: ${worktreePath}`);
-            }
+        await this.withRepo(() => removeWorktree(this.config.repoPath, this.handoffPath, worktreePath));
+    }
 
-            await gitSafe.worktreeRemove(this.config.repoPath, worktreePath);
-        } catch {
-            // If worktree remove fails, try manual cleanup
-            try {
-                const tmpDir = path.join(this.handoffPath, DIRS.tmp);
-                if (fsSafe.isContained(worktreePath, tmpDir)) {
-                    await fsSafe.rmdir(worktreePath, tmpDir);
-                }
-            } catch {
-                // Ignore cleanup errors
-            }
-        }
+    /**
+     * Run a git operation on the main repo after any already queued ones.
+     * Concurrent worktree add/remove would otherwise race on git's lock files.
+     */
+    private withRepo<T>(op: () => Promise<T>): Promise<T> {
+        const next = this.repoQueue.then(op, op);
+        this.repoQueue = next.catch(() => undefined);
+        return next;
     }
 
     /**
@@ -362,46 +913,528 @@ export class WatcherLoop {
             throw new Error('Another worker is already running. Remove stale lock or wait.');
         }
 
+        // A shutdown requested during the checks above ends the run before it claims anything
+        if (this.shuttingDown) {
+            await this.releaseWorkerLock();
+            console.log('Shutdown requested during startup, not starting');
+            return;
+        }
+
         this.running = true;
         console.log('Worker started, processing tasks...');
 
+        const pickup = new TaskPickup(path.join(this.handoffPath, DIRS.tasks), this.config.repoPath, {
+            mode: this.config.pickup,
+            pollIntervalMs: this.config.pollIntervalMs,
+            stableMs: this.config.pickupStableMs,
+            // Queue pause/resume and cancel markers take effect without waiting for the rescan
+            alsoWatch: [path.join(this.handoffPath, DIRS.meta), path.join(this.handoffPath, DIRS.cancel)],
+            onInvalid: async (filePath, err) => { await this.rejectInvalidTask(filePath, err); }
+        });
+        this.pickup = pickup;
+
         try {
+            await this.sweep();
+
+            // Repos initialized by older versions lack newer directories
+            await fsSafe.mkdir(path.join(this.handoffPath, DIRS.cancel), this.config.repoPath);
+
+            // Watch before the first scan so nothing dropped in between is missed
+            pickup.start();
+            const concurrency = Math.max(1, this.config.concurrency ?? 1);
+
             while (this.running) {
-                const tasksDir = path.join(this.handoffPath, DIRS.tasks);
-                const tasks = await loadTasks(tasksDir, this.config.repoPath);
+                const entries = await pickup.load();
+                const queues = await readQueueState(this.handoffPath, this.config.repoPath);
+                const cancels = await this.applyCancelRequests(entries);
+                let claimed = 0;
+
+                // Tasks in a dependency cycle can never run. Every member is rejected up front,
+                // busy slots and paused queues notwithstanding, so their dependents fail this pass
+                const cycles = new Map<string, string[]>();
+                for (const cycle of findDependencyCycles(entries.map(e => e.task))) {
+                    for (const id of cycle) cycles.set(id, cycle);
+                }
+                const rejected = new Set<TaskEntry>();
+                for (const entry of entries) {
+                    const cycle = cycles.get(entry.task.id);
+                    if (!cycle || this.inFlight.has(entry.task.id) || cancels.has(entry.task.id)) continue;
+
+                    rejected.add(entry);
+                    const filePath = path.join(this.handoffPath, DIRS.tasks, entry.file);
+                    if (await this.rejectInvalidTask(filePath, new DependencyCycleError(cycle))) claimed++;
+                }
 
-                for (const task of tasks) {
+                for (const entry of entries) {
                     if (!this.running) break;
+                    if (this.inFlight.has(entry.task.id) || rejected.has(entry)) continue;
 
-                    console.log(`Processing task: ${task.id} - ${task.title}`);
-                    const result = await this.processTask(task);
+                    // Cancelled tasks end at once: paused queue, pending dependencies and busy slots notwithstanding
+                    const cancel = cancels.get(entry.task.id);
+                    if (cancel) {
+                        const cancelled = createCancelledResult(entry.task.id, new Date(), null, cancel);
+                        if (await this.claimTask(entry, cancelled)) claimed++;
+                        continue;
+                    }
 
-                    // Write result
-                    const resultsDir = path.join(this.handoffPath, DIRS.results);
-                    await writeResult(result, resultsDir, this.config.repoPath);
+                    // All slots busy: a finishing task wakes the pickup for the next pass.
+                    // Keep going anyway, so cancelled tasks further down still end now
+                    if (this.inFlight.size >= concurrency) continue;
+                    if (!this.queueHasRoom(taskQueue(entry.task), queues)) continue;
 
-                    console.log(`Task ${task.id} completed with status: ${result.status}`);
+                    const verdict = await this.dependencyVerdict(entry.task);
+                    if (verdict === 'waiting') continue;
+
+                    if (await this.claimTask(entry, verdict ?? undefined)) claimed++;
                 }
 
-                if (this.config.singlePass) {
+                // Single pass ends once nothing is running and nothing more could start
+                if (this.config.singlePass && claimed === 0 && this.inFlight.size === 0 && !pickup.holdingBack) {
                     break;
                 }
 
-                // Wait before next poll
-                await new Promise(resolve =>
-                    setTimeout(resolve, this.config.pollIntervalMs ?? 2000)
-                );
+                // Wait for a change in tasks/ or a task to finish (shutdown wakes us early)
+                await pickup.wait();
             }
         } finally {
+            pickup.close();
+            this.pickup = null;
+            // Let in-flight tasks write their results before giving up the lock
+            await Promise.all(this.inFlight.values());
             await this.releaseWorkerLock();
             console.log('Worker stopped');
         }
     }
 
     /**
-     * Stop the loop gracefully
+     * Read cancel markers: abort cancelled tasks in flight and drop markers
+     * for tasks that already finished. Returns the requests for queued tasks
+     * (and for tasks not dropped yet, so they are cancelled when they appear).
+     */
+    private async applyCancelRequests(entries: TaskEntry[]): Promise<Map<string, CancelRequest>> {
+        const requests = await readCancelRequests(this.handoffPath, this.config.repoPath);
+        const queued = new Set(entries.map(e => e.task.id));
+        const resultsDir = path.join(this.handoffPath, DIRS.results);
+
+        for (const [taskId, request] of requests) {
+            const canceller = this.cancellers.get(taskId);
+            if (canceller) {
+                if (!canceller.signal.aborted) {
+                    console.log(`Cancelling running task ${taskId}`);
+                    canceller.abort(request);
+                }
+                requests.delete(taskId);
+            } else if (!queued.has(taskId) && await taskResultExists(resultsDir, taskId, this.config.repoPath)) {
+                // Finished before the cancel took effect
+                await clearCancelRequest(this.handoffPath, taskId, this.config.repoPath);
+                requests.delete(taskId);
+            }
+        }
+
+        return requests;
+    }
+
+    /**
+     * Whether a queue is unpaused and below its concurrency limit
+     */
+    private queueHasRoom(queue: string, queues: QueueState): boolean {
+        const settings = queues[queue] ?? {};
+        if (settings.paused) {
+            return false;
+        }
+
+        const limit = settings.concurrency ?? this.config.queueConcurrency?.[queue];
+        if (limit === undefined) {
+            return true;
+        }
+
+        let active = 0;
+        for (const q of this.inFlightQueues.values()) {
+            if (q === queue) active++;
+        }
+        return active < limit;
+    }
+
+    /**
+     * Decide whether a task's dependencies let it run.
+     * Returns null if it can run, 'waiting' to hold it, or the result that
+     * ends it without running (a failed dependency).
+     */
+    private async dependencyVerdict(task: Task): Promise<Result | 'waiting' | null> {
+        if (!task.dependsOn?.length) {
+            return null;
+        }
+
+        const resultsDir = path.join(this.handoffPath, DIRS.results);
+        const deps = await checkDependencies(task, resultsDir, this.config.repoPath);
+
+        if (deps.state === 'waiting') {
+            if (!this.waitingLogged.has(task.id)) {
+                this.waitingLogged.add(task.id);
+                console.log(`Task ${task.id} waiting on: ${deps.pending.join(', ')}`);
+            }
+            return 'waiting';
+        }
+        this.waitingLogged.delete(task.id);
+
+        return deps.state === 'failed'
+            ? createDependencyFailedResult(task.id, task.dependsOn, deps.failed)
+            : null;
+    }
+
+    /**
+     * Claim a task via its per-task lock and start processing it in the background.
+     * With a verdict the task is not run; the verdict is written as its result.
+     *
+     * @returns false if another worker holds the task
+     */
+    private async claimTask(entry: TaskEntry, verdict?: Result): Promise<boolean> {
+        const { task } = entry;
+        const lockDir = path.join(this.handoffPath, DIRS.locks);
+
+        const lock = await acquireTaskLock(lockDir, task.id, this.config.repoPath, this.config.lockLeaseMs);
+        if (!lock) {
+            return false; // Claimed by someone else
+        }
+
+        const stopHeartbeat = startHeartbeat(lock, this.config.repoPath, () => {
+            console.error(`Task lock for ${task.id} was lost`);
+        });
+        this.cancellers.set(task.id, new AbortController());
+
+        const work = (async () => {
+            try {
+                const force = this.config.force === true || task.force === true;
+                if (force || !(await this.skipIfProcessed(entry))) {
+                    if (verdict) {
+                        await this.settleTask(entry, verdict);
+                    } else {
+                        await this.handleTask(entry);
+                    }
+                }
+            } catch (err) {
+                // Task stays in running/ and is picked up by the next startup sweep
+                console.error(`Failed to finish task ${task.id}:`, err);
+            } finally {
+                stopHeartbeat();
+                this.cancellers.delete(task.id);
+                await releaseTaskLock(lock, this.config.repoPath).catch(() => undefined);
+            }
+        })();
+
+        this.inFlight.set(task.id, work);
+        this.inFlightQueues.set(task.id, taskQueue(task));
+        void work.finally(() => {
+            this.inFlight.delete(task.id);
+            this.inFlightQueues.delete(task.id);
+            // A new result may unblock dependents
+            this.pickup?.wake();
+        });
+        return true;
+    }
+
+    /**
+     * Process one task and persist its result
+     */
+    private async handleTask(entry: TaskEntry): Promise<void> {
+        const { task } = entry;
+
+        console.log(`Processing task: ${task.id} - ${task.title}`);
+        const policy = resolveRetryPolicy(task.retry, this.config.retry);
+        const deadline = new TaskDeadline(task.deadlineSec ?? this.config.taskDeadlineSec);
+        const signal = this.cancellers.get(task.id)?.signal;
+        const attempts: AttemptRecord[] = [];
+        let attemptResult: Result;
+
+        for (let attempt = 1; ; attempt++) {
+            attemptResult = await this.processTask(entry, deadline, attempt);
+            attempts.push({
+                attempt,
+                exitPath: attemptResult.exitPath,
+                status: attemptResult.status,
+                startedAt: attemptResult.startedAt,
+                durationMs: attemptResult.durationMs,
+                reason: attemptResult.reason
+            });
+
+            // No retries once shutdown or cancellation has begun
+            if (!this.running || this.aborting || signal?.aborted
+                || !shouldRetry(policy, attemptResult.exitPath, attempt)) {
+                break;
+            }
+
+            // A retry must start before the deadline
+            const delayMs = retryDelayMs(policy, attempt);
+            if (delayMs >= deadline.remainingMs) {
+                console.log(`Task ${task.id} not retried: deadline would pass during backoff`);
+                break;
+            }
+            console.log(`Task ${task.id} attempt ${attempt} ended with ${attemptResult.exitPath}, retrying in ${delayMs}ms`);
+            const backoffStartedAt = new Date();
+            await this.backoff(delayMs, signal);
+            if (signal?.aborted) {
+                attemptResult = createCancelledResult(
+                    task.id,
+                    backoffStartedAt,
+                    'retry backoff',
+                    signal.reason as CancelRequest
+                );
+                break;
+            }
+            if (!this.running) break;
+        }
+
+        const result = attachTaskSnapshot({ ...attemptResult, attempts }, task, entry.sha256, entry.format);
+
+        // Write result
+        const resultsDir = path.join(this.handoffPath, DIRS.results);
+        await writeResult(result, resultsDir, this.config.repoPath);
+        await this.clearRunning(task.id);
+        await clearCancelRequest(this.handoffPath, task.id, this.config.repoPath);
+
+        console.log(`Task ${task.id} completed with status: ${result.status}`);
+    }
+
+    /**
+     * End a task without running it: write its result and consume the task file
+     */
+    private async settleTask(entry: TaskEntry, result: Result): Promise<void> {
+        const { task } = entry;
+
+        const resultsDir = path.join(this.handoffPath, DIRS.results);
+        await writeResult(attachTaskSnapshot(result, task, entry.sha256, entry.format), resultsDir, this.config.repoPath);
+        await fsSafe.unlink(path.join(this.handoffPath, DIRS.tasks, entry.file), this.config.repoPath);
+        await clearCancelRequest(this.handoffPath, task.id, this.config.repoPath);
+
+        console.log(`Task ${task.id} not run: ${result.reason}`);
+    }
+
+    /**
+     * Sleep before a retry; stop() or the task's cancel signal ends the sleep early
+     */
+    private async backoff(ms: number, signal?: AbortSignal): Promise<void> {
+        if (signal?.aborted) {
+            return;
+        }
+
+        await new Promise<void>(resolve => {
+            const timer = setTimeout(done, ms);
+            const wakers = this.backoffWakers;
+            wakers.add(done);
+            signal?.addEventListener('abort', done, { once: true });
+
+            function done(): void {
+                clearTimeout(timer);
+                wakers.delete(done);
+                signal?.removeEventListener('abort', done);
+                resolve();
+            }
+        });
+    }
+
+    /**
+     * Recover orphaned tasks without starting the loop (bridge recover)
+     */
+    async recover(): Promise<RecoveryReport> {
+        const gotLock = await this.acquireWorkerLock();
+        if (!gotLock) {
+            throw new Error('Another worker is running. Recovery would interfere with its tasks.');
+        }
+
+        try {
+            return await this.sweep();
+        } finally {
+            await this.releaseWorkerLock();
+        }
+    }
+
+    /**
+     * Run the startup sweep and log what was recovered.
+     * Caller must hold the worker lock.
+     */
+    private async sweep(): Promise<RecoveryReport> {
+        const report = await runStartupSweep(this.handoffPath, this.config.repoPath, this.config.recovery);
+        for (const record of report.records) {
+            console.log(`Recovered task ${record.taskId}: ${record.action} (${record.reason})`);
+        }
+        return report;
+    }
+
+    /**
+     * Stop claiming new tasks; in-flight tasks run to completion
      */
     stop(): void {
         this.running = false;
+        this.pickup?.wake();
+        for (const wake of [...this.backoffWakers]) wake();
+    }
+
+    /**
+     * Shut down gracefully: stop claiming tasks and give in-flight tasks
+     * up to the grace period before aborting them. A second call aborts at once.
+     * run() still writes interrupted results and releases the worker lock.
+     */
+    async shutdown(graceMs: number = this.config.shutdownGraceMs ?? DEFAULT_SHUTDOWN_GRACE_MS): Promise<void> {
+        if (this.shuttingDown) {
+            await this.abort();
+            return;
+        }
+
+        this.shuttingDown = true;
+        this.stop();
+
+        if (this.inFlight.size === 0) {
+            return;
+        }
+
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const finished = await Promise.race([
+            Promise.all(this.inFlight.values()).then(() => true),
+            new Promise<boolean>(resolve => {
+                timer = setTimeout(() => resolve(false), graceMs);
+            })
+        ]);
+        clearTimeout(timer);
+
+        if (!finished) {
+            console.log(`Tasks did not finish within ${graceMs}ms, aborting`);
+            await this.abort();
+        }
+    }
+
+    /**
+     * Kill in-flight containers and keep new ones (even those waiting for
+     * budget) from starting; their tasks end with interrupted results
+     */
+    private async abort(): Promise<void> {
+        this.stop();
+        this.aborting = true;
+        await Promise.all([this.runner.abort(), this.executor.abort()]);
     }
 }
+
+/**
+ * Name of a verify step as shown in results and logs
+ */
+function verifyName(verify: VerifyCommand): string {
+    return verify.name ?? verify.cmd;
+}
+
+/**
+ * Record a verify step that did not run
+ */
+function skippedVerifyResult(verify: VerifyCommand, reason: VerifySkipReason): VerifyResult {
+    return {
+        name: verifyName(verify),
+        cmd: verify.cmd,
+        args: verify.args,
+        exitCode: null,
+        expectedExit: verify.expectedExit ?? 0,
+        passed: false,
+        durationMs: 0,
+        outputTruncated: false,
+        stdout: '',
+        stderr: '',
+        stdoutLog: null,
+        stderrLog: null,
+        skipped: reason
+    };
+}
+
+/**
+ * Split verify steps into groups that run one after another.
+ * Adjacent steps with the same group name form one group and run
+ * concurrently; a step without a group name is a group on its own.
+ */
+function groupVerifySteps(verify: VerifyCommand[]): Array<Array<{ index: number; verify: VerifyCommand }>> {
+    const groups: Array<Array<{ index: number; verify: VerifyCommand }>> = [];
+
+    verify.forEach((v, index) => {
+        const current = groups[groups.length - 1];
+        if (v.group !== undefined && current && current[0].verify.group === v.group) {
+            current.push({ index, verify: v });
+        } else {
+            groups.push([{ index, verify: v }]);
+        }
+    });
+
+    return groups;
+}
+
+/**
+ * Where each line of a patch (by index) lands: `file:line` in the new file for
+ * added and context lines, the file alone for removed lines and headers, and
+ * null before the first file.
+ */
+function patchLineLocations(diff: string): Array<string | null> {
+    let file: string | null = null;
+    // Line in the new file of the next added or context line; null outside a hunk
+    let newLine: number | null = null;
+
+    return diff.split('\n').map(text => {
+        const header = /^diff --git a\/.+ b\/(.+)$/.exec(text);
+        if (header) {
+            file = header[1];
+            newLine = null;
+            return file;
+        }
+
+        const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(text);
+        if (hunk) {
+            newLine = Number(hunk[1]);
+            return file;
+        }
+
+        if (file !== null && newLine !== null && (text.startsWith('+') || text.startsWith(' '))) {
+            return `${file}:${newLine++}`;
+        }
+        return file;
+    });
+}
+
+/**
+ * A verify step of a group: skipped by its condition, or started with its
+ * output scan. R is the run while pending, then its result once settled.
+ */
+type GroupRun<R> =
+    | { state: 'skipped'; index: number; verify: VerifyCommand; skip: VerifySkipReason }
+    | { state: 'started'; index: number; verify: VerifyCommand; scan: OutputScan; result: R };
+
+/** Secret scan of one command's output, fed while the command runs */
+interface OutputScan {
+    /** Runner listener; stops the command at the first match */
+    onOutput: OutputListener;
+    /** Matches found so far; once the command has exited, includes the held-back tail of each stream */
+    matches(): ScanMatch[];
+}
+
+/**
+ * Scan a command's output incrementally, one scanner (and overlap buffer)
+ * per stream so stdout and stderr are never joined. Once a secret is seen
+ * the command is stopped and later chunks are not scanned.
+ *
+ * @param onSecret - Called once, at the first match (e.g. to stop other commands)
+ */
+function createOutputScan(onSecret?: () => void): OutputScan {
+    const scanners = { stdout: new StreamScanner(), stderr: new StreamScanner() };
+    const found: ScanMatch[] = [];
+    let finalized = false;
+
+    return {
+        onOutput: (stream, chunk) => {
+            if (found.length > 0) return 'stop';
+            found.push(...scanners[stream].scan(chunk).matches);
+            if (found.length === 0) return undefined;
+            onSecret?.();
+            return 'stop';
+        },
+        matches: () => {
+            // finalize() empties the overlap buffer, so it runs once
+            if (found.length === 0 && !finalized) {
+                finalized = true;
+                found.push(...scanners.stdout.finalize().matches, ...scanners.stderr.finalize().matches);
+            }
+            return found;
+        }
+    };
+}
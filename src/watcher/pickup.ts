@@ -0,0 +1,276 @@
+/**
+ * Task Pickup - Notices new task files in tasks/
+ *
+ * Watches the directory with fs.watch and wakes the loop shortly after a
+ * change (events are debounced, editors and atomic writers emit several).
+ * Polling remains as a fallback when fs.watch is unavailable or fails, and
+ * as a slow rescan in case an event is missed (e.g. network filesystems).
+ *
+ * Task files may be .json, .yaml/.yml or .md (see task.ts).
+ * Only complete files are handed out: planners should write `<id>.json.tmp`
+ * and rename it into place, which is never picked up half-written; files
+ * written in place are held back until they have not changed for stableMs.
+ *
+ * Parsed files are cached by size and mtime, so unchanged files are not
+ * re-read every cycle. A file that fails to load is loaded again after
+ * invalidGraceMs, since a writer may only have paused; only if it still
+ * fails unchanged is it reported, once per version (the watcher moves it to
+ * rejected/ at that point).
+ */
+
+import { fsSafe } from '../safe/index.js';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { TaskEntry, isTaskFile, loadTaskEntry, sortTaskEntries } from './task.js';
+
+/** How new task files are noticed */
+export type PickupMode = 'watch' | 'poll';
+
+export interface TaskPickupOptions {
+    /** fs.watch with a polling fallback, or polling only (default: watch) */
+    mode?: PickupMode;
+    /** Poll interval in poll mode (default: 2000) */
+    pollIntervalMs?: number;
+    /** Rescan interval in watch mode, in case an event is missed (default: 30000) */
+    rescanIntervalMs?: number;
+    /** Quiet period after a change event before rescanning (default: 100) */
+    debounceMs?: number;
+    /** Time a file must be unmodified before it is claimed (default: 250) */
+    stableMs?: number;
+    /** Time an unchanged file must keep failing to load before it is reported invalid (default: 5000) */
+    invalidGraceMs?: number;
+    /** Further directories whose task-file (.json etc.) changes should wake the loop (e.g. meta/ for queue settings) */
+    alsoWatch?: string[];
+    /** Called once per version of a file that fails to load (default: log the error) */
+    onInvalid?: (filePath: string, error: unknown) => Promise<void>;
+}
+
+/** A task file as last parsed (entry is null if it was invalid) */
+interface CachedFile {
+    size: number;
+    mtimeMs: number;
+    entry: TaskEntry | null;
+    /** When this version first failed to load, while it is not yet reported invalid */
+    failedAt: number | null;
+}
+
+export class TaskPickup {
+    private readonly tasksDir: string;
+    private readonly root: string;
+    private mode: PickupMode;
+    private readonly pollIntervalMs: number;
+    private readonly rescanIntervalMs: number;
+    private readonly debounceMs: number;
+    private readonly stableMs: number;
+    private readonly invalidGraceMs: number;
+    private readonly alsoWatch: string[];
+    private readonly onInvalid: ((filePath: string, error: unknown) => Promise<void>) | null;
+
+    private watchers: fs.FSWatcher[] = [];
+    private readonly cache = new Map<string, CachedFile>();
+    /** Set when a change arrives while nobody is waiting */
+    private pending = false;
+    /** Ends the current wait() */
+    private wakeWaiter: (() => void) | null = null;
+    private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+    /** Earliest time a held-back file should be looked at again */
+    private recheckAt: number | null = null;
+
+    constructor(tasksDir: string, root: string, opts: TaskPickupOptions = {}) {
+        this.tasksDir = tasksDir;
+        this.root = root;
+        this.mode = opts.mode ?? 'watch';
+        this.pollIntervalMs = opts.pollIntervalMs ?? 2000;
+        this.rescanIntervalMs = opts.rescanIntervalMs ?? 30_000;
+        this.debounceMs = opts.debounceMs ?? 100;
+        this.stableMs = opts.stableMs ?? 250;
+        this.invalidGraceMs = opts.invalidGraceMs ?? 5000;
+        this.alsoWatch = opts.alsoWatch ?? [];
+        this.onInvalid = opts.onInvalid ?? null;
+    }
+
+    /** Whether the last load() held back files that were still being written (or may be) */
+    get holdingBack(): boolean {
+        return this.recheckAt !== null;
+    }
+
+    /**
+     * Start watching the tasks directory (no-op in poll mode)
+     */
+    start(): void {
+        if (this.mode !== 'watch' || this.watchers.length > 0) {
+            return;
+        }
+
+        try {
+            for (const dir of [this.tasksDir, ...this.alsoWatch]) {
+                const watcher = fsSafe.watch(dir, this.root, fileName => {
+                    // Temp files are renamed into place later; that rename is the event we want
+                    if (fileName === null || isTaskFile(fileName)) {
+                        this.onChange();
+                    }
+                });
+                watcher.on('error', err => this.fallBackToPolling(err));
+                this.watchers.push(watcher);
+            }
+        } catch (err) {
+            this.fallBackToPolling(err);
+        }
+    }
+
+    /**
+     * Stop watching and end any pending wait
+     */
+    close(): void {
+        this.closeWatchers();
+        if (this.debounceTimer) clearTimeout(this.debounceTimer);
+        this.debounceTimer = null;
+        this.wake();
+    }
+
+    /**
+     * Wait until the tasks directory may have changed: a (debounced) watch
+     * event, a held-back file becoming stable, the poll/rescan interval, or wake()
+     */
+    async wait(): Promise<void> {
+        if (this.pending) {
+            this.pending = false;
+            return;
+        }
+
+        let timeoutMs = this.mode === 'watch' ? this.rescanIntervalMs : this.pollIntervalMs;
+        if (this.recheckAt !== null) {
+            timeoutMs = Math.min(timeoutMs, Math.max(0, this.recheckAt - Date.now()));
+        }
+
+        await new Promise<void>(resolve => {
+            const timer = setTimeout(done, timeoutMs);
+            this.wakeWaiter = done;
+
+            function done(): void {
+                clearTimeout(timer);
+                resolve();
+            }
+        });
+        this.wakeWaiter = null;
+        this.pending = false;
+    }
+
+    /**
+     * End the current wait early
+     */
+    wake(): void {
+        if (this.wakeWaiter) {
+            this.wakeWaiter();
+        } else {
+            this.pending = true;
+        }
+    }
+
+    /**
+     * Load the complete, valid task files, oldest first.
+     * Files still being written are held back until stable, and files that
+     * failed to load once are held back for invalidGraceMs before being reported.
+     */
+    async load(): Promise<TaskEntry[]> {
+        const files = (await fsSafe.readdir(this.tasksDir, this.root))
+            .filter(isTaskFile);
+
+        const now = Date.now();
+        const entries: TaskEntry[] = [];
+        this.recheckAt = null;
+
+        for (const file of files) {
+            const fullPath = path.join(this.tasksDir, file);
+
+            let stats: fs.Stats;
+            try {
+                stats = await fsSafe.stat(fullPath, this.root);
+            } catch {
+                continue; // Removed meanwhile
+            }
+            if (!stats.isFile()) continue;
+
+            // Still being written: look again once it has settled
+            const stableAt = stats.mtimeMs + this.stableMs;
+            if (stableAt > now) {
+                this.recheckAt = Math.min(this.recheckAt ?? stableAt, stableAt);
+                continue;
+            }
+
+            const cached = this.cache.get(file);
+            const unchanged = cached !== undefined
+                && cached.size === stats.size
+                && cached.mtimeMs === stats.mtimeMs;
+            if (unchanged && cached.failedAt === null) {
+                if (cached.entry) entries.push(cached.entry);
+                continue;
+            }
+
+            // Failed once already: give the writer the grace period to finish
+            const graceEndsAt = unchanged && cached.failedAt !== null ? cached.failedAt + this.invalidGraceMs : null;
+            if (graceEndsAt !== null && graceEndsAt > now) {
+                this.recheckAt = Math.min(this.recheckAt ?? graceEndsAt, graceEndsAt);
+                continue;
+            }
+
+            let entry: TaskEntry | null = null;
+            try {
+                entry = await loadTaskEntry(fullPath, this.root);
+            } catch (err) {
+                if (graceEndsAt === null) {
+                    // First failure of this version: the writer may only have paused
+                    const recheckAt = now + this.invalidGraceMs;
+                    this.cache.set(file, { size: stats.size, mtimeMs: stats.mtimeMs, entry: null, failedAt: now });
+                    this.recheckAt = Math.min(this.recheckAt ?? recheckAt, recheckAt);
+                    continue;
+                }
+
+                // Still failing unchanged: reported once; the file is retried only after it changes
+                if (this.onInvalid) {
+                    await this.onInvalid(fullPath, err);
+                } else {
+                    console.error(`Invalid task file ${file}:`, err instanceof Error ? err.message : err);
+                }
+            }
+            this.cache.set(file, { size: stats.size, mtimeMs: stats.mtimeMs, entry, failedAt: null });
+            if (entry) entries.push(entry);
+        }
+
+        // Forget files that are gone
+        for (const file of this.cache.keys()) {
+            if (!files.includes(file)) this.cache.delete(file);
+        }
+
+        return sortTaskEntries(entries);
+    }
+
+    /**
+     * Debounce change events into a single wake-up
+     */
+    private onChange(): void {
+        if (this.debounceTimer) clearTimeout(this.debounceTimer);
+        this.debounceTimer = setTimeout(() => {
+            this.debounceTimer = null;
+            this.wake();
+        }, this.debounceMs);
+    }
+
+    /**
+     * Give up on fs.watch and poll instead
+     */
+    private fallBackToPolling(err: unknown): void {
+        console.error(
+            'Cannot watch tasks directory, falling back to polling:',
+            err instanceof Error ? err.message : err
+        );
+        this.closeWatchers();
+        this.mode = 'poll';
+        this.wake();
+    }
+
+    private closeWatchers(): void {
+        for (const watcher of this.watchers) watcher.close();
+        this.watchers = [];
+    }
+}
@@ -0,0 +1,98 @@
+/**
+ * Named Task Queues
+ *
+ * Every task belongs to a queue (task.queue, default "default"). Queue
+ * settings live in .ai-handoff/meta/queues.json so the CLI can pause,
+ * resume or limit a queue while a watcher is running:
+ *
+ *   { "refactors": { "paused": true, "concurrency": 1 } }
+ *
+ * The watcher re-reads the file before every scheduling pass.
+ */
+
+import { fsSafe } from '../safe/index.js';
+import * as path from 'node:path';
+import { Task } from './task.js';
+import { DIRS } from './workspace.js';
+
+/** Queue for tasks that do not name one */
+export const DEFAULT_QUEUE = 'default';
+
+/** Queue settings file inside meta/ */
+export const QUEUES_FILE = 'queues.json';
+
+/** Allowed queue names */
+export const QUEUE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+export interface QueueSettings {
+    /** Paused queues keep their tasks in tasks/ without claiming them */
+    paused?: boolean;
+    /** Maximum tasks of this queue in flight at once (default: no limit beyond the global one) */
+    concurrency?: number;
+}
+
+/** Settings by queue name */
+export type QueueState = Record<string, QueueSettings>;
+
+/**
+ * Queue a task belongs to
+ */
+export function taskQueue(task: Task): string {
+    return task.queue ?? DEFAULT_QUEUE;
+}
+
+/**
+ * Path of the queue settings file
+ */
+export function queueStatePath(handoffPath: string): string {
+    return path.join(handoffPath, DIRS.meta, QUEUES_FILE);
+}
+
+/**
+ * Read queue settings; a missing or unreadable file means no settings
+ */
+export async function readQueueState(handoffPath: string, root: string): Promise<QueueState> {
+    const statePath = queueStatePath(handoffPath);
+    if (!(await fsSafe.exists(statePath, root))) {
+        return {};
+    }
+
+    try {
+        const state = JSON.parse(await fsSafe.read(statePath, root));
+        return state && typeof state === 'object' && !Array.isArray(state) ? state as QueueState : {};
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Update one queue's settings
+ *
+ * @returns The queue's settings after the update
+ */
+export async function updateQueueSettings(
+    handoffPath: string,
+    queue: string,
+    settings: QueueSettings,
+    root: string
+): Promise<QueueSettings> {
+    if (!QUEUE_NAME_PATTERN.test(queue)) {
+        throw new Error(`Invalid queue name: ${queue}`);
+    }
+
+    const state = await readQueueState(handoffPath, root);
+    const updated: QueueSettings = { ...state[queue], ...settings };
+
+    // Drop settings reset to their defaults
+    if (!updated.paused) delete updated.paused;
+    if (updated.concurrency === undefined) delete updated.concurrency;
+
+    if (Object.keys(updated).length > 0) {
+        state[queue] = updated;
+    } else {
+        delete state[queue];
+    }
+
+    await fsSafe.writeAtomic(queueStatePath(handoffPath), JSON.stringify(state, null, 2), root);
+    return updated;
+}
@@ -0,0 +1,369 @@
+/**
+ * Crash Recovery
+ *
+ * Startup sweep for state left behind by a watcher that died mid-task:
+ * - running/<id>.json with no result (requeued from the copy of its
+ *   original file, if running/ holds one)
+ * - tmp/ws-<id> worktrees
+ * - feat/ai/<id> branches that would block `worktree add -b`
+ * - per-task locks
+ *
+ * Must only run while holding the worker lock, otherwise it would
+ * "recover" tasks a live watcher is still working on.
+ */
+
+import { fsSafe, gitSafe } from '../safe/index.js';
+import * as path from 'node:path';
+import { validateTask, hashTaskContent, TASK_ID_PATTERN } from './task.js';
+import { writeResult, createErrorResult, attachTaskSnapshot } from './result.js';
+import { taskResultExists } from './lock.js';
+import {
+    DIRS,
+    WORKTREE_PREFIX,
+    taskBranchName,
+    taskWorktreePath,
+    removeWorktree,
+    runningSourceName,
+    findRunningSource
+} from './workspace.js';
+
+/** Incident notes live under meta/ */
+const INCIDENTS_DIR = 'incidents';
+
+/** What to do with a task found in running/ */
+export type RecoveryPolicy = 'requeue' | 'fail';
+
+export interface RecoveryOptions {
+    /** Requeue orphaned tasks or fail them with a result (default: requeue) */
+    policy?: RecoveryPolicy;
+    /** Requeues allowed per task before it is failed instead (default: 2) */
+    maxRequeues?: number;
+}
+
+export interface OrphanedTask {
+    /** Task ID */
+    taskId: string;
+    /** 'running' if running/<id>.json exists, 'worktree' if only a worktree is left */
+    state: 'running' | 'worktree';
+    /** Last modification of the orphaned state */
+    stuckSince: Date;
+    /** Worktree directory, if one exists */
+    worktreePath?: string;
+    /** Task branch, if one exists */
+    branch?: string;
+    /** Commit the task branch pointed at */
+    branchHead?: string;
+    /** Per-task lock file, if one exists */
+    taskLockPath?: string;
+}
+
+/** 'error' means recovery itself failed; the orphan is left for the next sweep */
+export type RecoveryAction = 'requeued' | 'failed' | 'cleaned' | 'error';
+
+export interface RecoveryRecord {
+    taskId: string;
+    action: RecoveryAction;
+    reason: string;
+    /** Incident note filename inside meta/incidents/ */
+    note: string;
+}
+
+export interface RecoveryReport {
+    orphans: OrphanedTask[];
+    records: RecoveryRecord[];
+}
+
+/**
+ * Find orphaned task state in the handoff directory.
+ * An orphan whose state cannot be read is logged and left for the next sweep.
+ */
+export async function detectOrphanedTasks(
+    handoffPath: string,
+    root: string
+): Promise<OrphanedTask[]> {
+    const runningDir = path.join(handoffPath, DIRS.running);
+    const tmpDir = path.join(handoffPath, DIRS.tmp);
+
+    // Copies of original task files (<id>.<file>) are not tasks of their own
+    const runningIds = (await listDir(runningDir, root))
+        .filter(f => f.endsWith('.json'))
+        .map(f => f.slice(0, -'.json'.length))
+        .filter(id => TASK_ID_PATTERN.test(id));
+    const worktreeIds = (await listDir(tmpDir, root))
+        .filter(f => f.startsWith(WORKTREE_PREFIX))
+        .map(f => f.slice(WORKTREE_PREFIX.length));
+
+    const orphans: OrphanedTask[] = [];
+    for (const taskId of new Set([...runningIds, ...worktreeIds])) {
+        const isRunning = runningIds.includes(taskId);
+        const worktreePath = taskWorktreePath(handoffPath, taskId);
+        const hasWorktree = worktreeIds.includes(taskId);
+        const taskLockPath = path.join(handoffPath, DIRS.locks, `${taskId}.lock`);
+
+        try {
+            const hasLock = await fsSafe.exists(taskLockPath, root);
+
+            const statPath = isRunning ? path.join(runningDir, `${taskId}.json`) : worktreePath;
+            const stuckSince = (await fsSafe.stat(statPath, root)).mtime;
+
+            // Only a running task's branch is ours to clean up
+            const branch = taskBranchName(taskId);
+            const branchHead = isRunning ? await gitSafe.branchHead(root, branch) : null;
+
+            orphans.push({
+                taskId,
+                state: isRunning ? 'running' : 'worktree',
+                stuckSince,
+                worktreePath: hasWorktree ? worktreePath : undefined,
+                branch: branchHead ? branch : undefined,
+                branchHead: branchHead ?? undefined,
+                taskLockPath: hasLock ? taskLockPath : undefined
+            });
+        } catch (err) {
+            console.error(
+                `Could not inspect orphaned task ${taskId}:`,
+                (err instanceof Error ? err.message : String(err)).trim()
+            );
+        }
+    }
+
+    return orphans;
+}
+
+/**
+ * Recover a single orphaned task according to policy and write an incident note
+ */
+export async function recoverOrphanedTask(
+    orphan: OrphanedTask,
+    handoffPath: string,
+    root: string,
+    opts: RecoveryOptions = {}
+): Promise<RecoveryRecord> {
+    const policy = opts.policy ?? 'requeue';
+    const maxRequeues = opts.maxRequeues ?? 2;
+    const { taskId } = orphan;
+
+    if (orphan.worktreePath) {
+        await removeWorktree(root, handoffPath, orphan.worktreePath);
+    }
+    if (orphan.taskLockPath) {
+        await fsSafe.unlink(orphan.taskLockPath, root);
+    }
+
+    let action: RecoveryAction;
+    let reason: string;
+
+    const runningPath = path.join(handoffPath, DIRS.running, `${taskId}.json`);
+    const resultsDir = path.join(handoffPath, DIRS.results);
+
+    if (orphan.state === 'worktree') {
+        action = 'cleaned';
+        reason = 'Stale worktree with no running task';
+    } else if (await taskResultExists(resultsDir, taskId, root)) {
+        // Crashed after the result was written; nothing left to do
+        await removeRunning(handoffPath, taskId, root);
+        action = 'cleaned';
+        reason = 'Task already has a result';
+    } else {
+        const requeues = await countRequeues(handoffPath, taskId, root);
+
+        if (policy === 'requeue' && requeues < maxRequeues) {
+            // A fresh run needs the branch name free; its head is kept in the note.
+            // Git refuses to delete a branch a worktree entry still names, so prune
+            // entries whose directory is gone (or was removed without git) first
+            if (orphan.branch) {
+                await gitSafe.worktreePrune(root);
+                await gitSafe.deleteBranch(root, orphan.branch);
+            }
+
+            // Requeue the file as the planner wrote it (YAML and Markdown included)
+            const source = await findRunningSource(handoffPath, taskId, root);
+            const queuedPath = path.join(handoffPath, DIRS.tasks, source ?? `${taskId}.json`);
+            const sourcePath = source
+                ? path.join(handoffPath, DIRS.running, runningSourceName(taskId, source))
+                : runningPath;
+            if (!(await fsSafe.exists(queuedPath, root))) {
+                await fsSafe.writeAtomic(queuedPath, await fsSafe.read(sourcePath, root), root);
+            }
+            await removeRunning(handoffPath, taskId, root);
+
+            action = 'requeued';
+            reason = `Requeued after watcher crash (requeue ${requeues + 1} of ${maxRequeues})`;
+        } else {
+            reason = policy === 'fail'
+                ? 'Task was interrupted by a watcher crash'
+                : `Task was interrupted by a watcher crash ${requeues + 1} times`;
+            await writeOrphanResult(orphan, runningPath, resultsDir, reason, root);
+            await removeRunning(handoffPath, taskId, root);
+            action = 'failed';
+        }
+    }
+
+    const note = await writeIncidentNote(handoffPath, root, {
+        taskId,
+        recoveredAt: new Date().toISOString(),
+        action,
+        policy,
+        reason,
+        found: describeOrphan(orphan)
+    });
+
+    return { taskId, action, reason, note };
+}
+
+/**
+ * Detect and recover all orphaned tasks, then prune stale worktree metadata.
+ * An orphan that cannot be recovered is recorded as an error in its incident
+ * note and left in place; it does not stop the sweep.
+ */
+export async function runStartupSweep(
+    handoffPath: string,
+    root: string,
+    opts: RecoveryOptions = {}
+): Promise<RecoveryReport> {
+    const orphans = await detectOrphanedTasks(handoffPath, root);
+
+    const records: RecoveryRecord[] = [];
+    for (const orphan of orphans) {
+        try {
+            records.push(await recoverOrphanedTask(orphan, handoffPath, root, opts));
+        } catch (err) {
+            records.push(await recordRecoveryError(orphan, handoffPath, root, err, opts));
+        }
+    }
+
+    await gitSafe.worktreePrune(root);
+
+    return { orphans, records };
+}
+
+/**
+ * Write an incident note for an orphan whose recovery failed
+ */
+async function recordRecoveryError(
+    orphan: OrphanedTask,
+    handoffPath: string,
+    root: string,
+    err: unknown,
+    opts: RecoveryOptions
+): Promise<RecoveryRecord> {
+    const message = (err instanceof Error ? err.message : String(err)).trim();
+    const reason = `Recovery failed: ${message}`;
+    console.error(`Could not recover task ${orphan.taskId}: ${message}`);
+
+    let note = '';
+    try {
+        note = await writeIncidentNote(handoffPath, root, {
+            taskId: orphan.taskId,
+            recoveredAt: new Date().toISOString(),
+            action: 'error',
+            policy: opts.policy ?? 'requeue',
+            reason,
+            found: describeOrphan(orphan)
+        });
+    } catch (noteErr) {
+        console.error(
+            `Could not write incident note for ${orphan.taskId}:`,
+            noteErr instanceof Error ? noteErr.message : noteErr
+        );
+    }
+
+    return { taskId: orphan.taskId, action: 'error', reason, note };
+}
+
+/**
+ * What the sweep found for an orphan, as recorded in its incident note
+ */
+function describeOrphan(orphan: OrphanedTask): Record<string, unknown> {
+    return {
+        state: orphan.state,
+        stuckSince: orphan.stuckSince.toISOString(),
+        worktreePath: orphan.worktreePath ?? null,
+        branch: orphan.branch ?? null,
+        branchHead: orphan.branchHead ?? null,
+        taskLock: orphan.taskLockPath ? path.basename(orphan.taskLockPath) : null
+    };
+}
+
+/**
+ * Remove a task's running/<id>.json and the copy of its original file, if any
+ */
+async function removeRunning(handoffPath: string, taskId: string, root: string): Promise<void> {
+    const source = await findRunningSource(handoffPath, taskId, root);
+    if (source) {
+        await fsSafe.unlink(path.join(handoffPath, DIRS.running, runningSourceName(taskId, source)), root);
+    }
+    await fsSafe.unlink(path.join(handoffPath, DIRS.running, `${taskId}.json`), root);
+}
+
+/**
+ * List a directory, treating a missing directory as empty
+ */
+async function listDir(dirPath: string, root: string): Promise<string[]> {
+    if (!(await fsSafe.exists(dirPath, root))) {
+        return [];
+    }
+    return fsSafe.readdir(dirPath, root);
+}
+
+/**
+ * Count earlier requeues of a task from its incident notes
+ */
+async function countRequeues(handoffPath: string, taskId: string, root: string): Promise<number> {
+    const incidentsDir = path.join(handoffPath, DIRS.meta, INCIDENTS_DIR);
+    const notes = (await listDir(incidentsDir, root))
+        .filter(f => f.startsWith(`${taskId}_recovery_`));
+
+    let count = 0;
+    for (const note of notes) {
+        try {
+            const content = JSON.parse(await fsSafe.read(path.join(incidentsDir, note), root));
+            if (content.action === 'requeued') count++;
+        } catch {
+            // Unreadable note does not count
+        }
+    }
+    return count;
+}
+
+/**
+ * Write a failed result for an orphan that will not be retried
+ */
+async function writeOrphanResult(
+    orphan: OrphanedTask,
+    runningPath: string,
+    resultsDir: string,
+    reason: string,
+    root: string
+): Promise<void> {
+    let result = createErrorResult(orphan.taskId, orphan.stuckSince, reason, 'internal_error', {
+        message: reason
+    });
+
+    try {
+        const content = await fsSafe.read(runningPath, root);
+        const task = validateTask(JSON.parse(content));
+        result = attachTaskSnapshot(result, task, hashTaskContent(content));
+    } catch {
+        // Unparseable task file: result without snapshot
+    }
+
+    await writeResult(result, resultsDir, root);
+}
+
+/**
+ * Write a recovery incident note to meta/incidents/
+ */
+async function writeIncidentNote(
+    handoffPath: string,
+    root: string,
+    note: { taskId: string } & Record<string, unknown>
+): Promise<string> {
+    const fileName = `${note.taskId}_recovery_${Date.now()}.json`;
+    await fsSafe.writeAtomic(
+        path.join(handoffPath, DIRS.meta, INCIDENTS_DIR, fileName),
+        JSON.stringify(note, null, 2),
+        root
+    );
+    return fileName;
+}
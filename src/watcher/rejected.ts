@@ -0,0 +1,117 @@
+/**
+ * Rejected Task Files
+ *
+ * A task file that cannot be parsed or fails validation is moved from
+ * tasks/ to rejected/ instead of being retried every poll, and a
+ * schema_invalid result tells the planner which field to fix. The planner
+ * corrects the task and drops it into tasks/ again; a schema_invalid
+ * result never blocks a task with the same id, since that task never ran.
+ */
+
+import { fsSafe } from '../safe/index.js';
+import * as path from 'node:path';
+import {
+    TaskFieldError,
+    TaskValidationError,
+    DependencyCycleError,
+    TASK_ID_PATTERN,
+    hashTaskContent,
+    taskFileFormat,
+    parseTaskContent
+} from './task.js';
+import { Result, ExitDetailsByPath, createErrorResult, readResult, writeResult } from './result.js';
+import { DIRS } from './workspace.js';
+
+/**
+ * Move an invalid task file to rejected/ and record a schema_invalid result
+ *
+ * The result is written to results/ under the task's id (or the file name if
+ * the id is unusable), unless a result from a run of that id already exists.
+ *
+ * @param error - What loading the file threw
+ * @returns The schema_invalid result
+ */
+export async function rejectTaskFile(
+    handoffPath: string,
+    filePath: string,
+    error: unknown,
+    root: string
+): Promise<Result> {
+    const file = path.basename(filePath);
+    const content = await fsSafe.read(filePath, root);
+    const errors = taskFileErrors(error);
+    const taskId = rejectedTaskId(content, file);
+
+    const rejectedPath = path.join(handoffPath, DIRS.rejected, file);
+    await fsSafe.mkdir(path.dirname(rejectedPath), root);
+    await fsSafe.rename(filePath, rejectedPath, root);
+
+    const result = createErrorResult(
+        taskId,
+        new Date(),
+        `Invalid task file ${file}: ${errors[0].message}`,
+        'schema_invalid',
+        error instanceof DependencyCycleError
+            ? { field: errors[0].field, message: errors[0].message, errors, cycle: error.cycle }
+            : { field: errors[0].field, message: errors[0].message, errors }
+    );
+    result.taskHash = hashTaskContent(content);
+    result.meta = { rejectedFile: path.join(DIRS.rejected, file) };
+
+    const resultsDir = path.join(handoffPath, DIRS.results);
+    const previous = await readResult(resultsDir, taskId, root).catch(() => null);
+    if (previous && previous.exitPath !== 'schema_invalid') {
+        console.error(`Rejected task file ${file}; keeping the existing result for ${taskId}`);
+    } else {
+        await writeResult(result, resultsDir, root);
+        console.error(`Rejected task file ${file}: ${errors.map(e => e.message).join('; ')}`);
+    }
+
+    return result;
+}
+
+/**
+ * Whether a result is for a task file moved to rejected/ that the planner can
+ * fix and resubmit. A dependency cycle cannot be fixed in one file, and other
+ * schema_invalid results never had a file set aside, so neither qualifies.
+ */
+export function awaitsResubmission(result: Result): boolean {
+    if (result.exitPath !== 'schema_invalid') return false;
+    const details = result.details as ExitDetailsByPath['schema_invalid'];
+    return typeof result.meta?.rejectedFile === 'string' && !details.cycle;
+}
+
+/**
+ * Whether loading a task file failed because of its content (rather than I/O)
+ */
+export function isInvalidTaskError(error: unknown): boolean {
+    return error instanceof TaskValidationError || error instanceof SyntaxError;
+}
+
+/**
+ * Field errors for what loading a task file threw
+ */
+function taskFileErrors(error: unknown): TaskFieldError[] {
+    if (error instanceof TaskValidationError) {
+        return error.errors;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return [{ field: null, message: error instanceof SyntaxError ? `Invalid JSON: ${message}` : message }];
+}
+
+/**
+ * Id to file the result under: the task's own id if usable, else one from the file name
+ */
+function rejectedTaskId(content: string, file: string): string {
+    try {
+        const task = parseTaskContent(content, taskFileFormat(file) ?? 'json') as { id?: unknown } | null;
+        if (typeof task?.id === 'string' && TASK_ID_PATTERN.test(task.id)) {
+            return task.id;
+        }
+    } catch {
+        // Unparseable; fall back to the file name
+    }
+
+    const base = path.basename(file, path.extname(file)).replace(/[^A-Za-z0-9_-]/g, '_').replace(/^[_-]+/, '').slice(0, 128);
+    return base || `rejected-${hashTaskContent(content).slice(0, 12)}`;
+}
@@ -5,9 +5,9 @@
  * Updated for protocol compliance with exit_path and task_snapshot.
  */
 
-import { fsSafe } from '../safe/index.js';
-// TODO: Use Task type for task_snapshot in results (V1 enhancement)
-// import { Task } from './task.js';
+import { fsSafe, StreamScanner } from '../safe/index.js';
+import { Task, TaskFieldError, TaskFormat } from './task.js';
+import { StepTiming } from './deadline.js';
 import * as path from 'node:path';
 
 /**
@@ -19,37 +19,128 @@ export type ExitPath =
     | 'worker_locked'
     | 'schema_invalid'
     | 'idempotent_skip'
+    | 'dependency_failed'
     | 'branch_checkout_failed'
     | 'repo_dirty'
     | 'opencode_timeout'
     | 'opencode_crashed'
+    | 'deadline_exceeded'
     | 'verify_failed'
     | 'scope_violation'
+    | 'secretless_violation'
+    | 'patch_too_large'
     | 'secret_detected'
+    | 'interrupted'
+    | 'cancelled'
     | 'internal_error';
 
-export type ResultStatus = 'success' | 'failed' | 'error' | 'secret_detected';
+/**
+ * Machine-readable details for each exit path.
+ * Field names are stable; planners may branch on them.
+ */
+export interface ExitDetailsByPath {
+    completed_success: { branch: string | null; commitSha: string | null; filesChanged: number };
+    completed_failed: { message: string };
+    worker_locked: { lockPath: string };
+    schema_invalid: { field: string | null; message: string; errors?: TaskFieldError[]; cycle?: string[] };
+    idempotent_skip: { previousStatus: ResultStatus | null; sameContent: boolean };
+    dependency_failed: {
+        dependsOn: string[];
+        failed: Array<{ taskId: string; status: ResultStatus; exitPath: ExitPath }>;
+    };
+    branch_checkout_failed: { branch: string; message: string };
+    repo_dirty: { message: string };
+    opencode_timeout: { executor: string; durationMs: number };
+    opencode_crashed: { executor: string; exitCode: number };
+    deadline_exceeded: { deadlineSec: number; elapsedMs: number; phase: string; steps: StepTiming[] };
+    verify_failed: {
+        failed: Array<{ name: string; cmd: string; args: string[]; exitCode: number | null; expectedExit: number }>;
+    };
+    scope_violation: { scope: string[]; violations: string[] };
+    secretless_violation: { files: string[] };
+    patch_too_large: { limitBytes: number };
+    secret_detected: { patterns: string[]; matchCount: number; locations: string[] };
+    interrupted: { phase: string };
+    cancelled: { phase: string | null; requestedAt: string; reason: string | null };
+    internal_error: { message: string };
+}
+
+export type ExitDetails = ExitDetailsByPath[ExitPath];
+
+/** Exit paths that produce a 'failed' status */
+export type FailedExitPath =
+    | 'completed_failed'
+    | 'verify_failed'
+    | 'scope_violation'
+    | 'secretless_violation'
+    | 'patch_too_large';
+
+export type ResultStatus = 'success' | 'failed' | 'error' | 'secret_detected' | 'skipped' | 'cancelled';
+
+/**
+ * Why a verify step did not run:
+ * - deadline: the task deadline ran out
+ * - stopped: an earlier step failed with onFailure 'stop'
+ * - when: an on_failure step, but nothing failed
+ */
+export type VerifySkipReason = 'deadline' | 'stopped' | 'when';
 
 export interface VerifyResult {
+    /** Step name (the command if the step has no name) */
+    name: string;
     /** Command that was run */
     cmd: string;
     /** Arguments used */
     args: string[];
-    /** Exit code */
-    exitCode: number;
+    /** Exit code (null if the step did not run) */
+    exitCode: number | null;
     /** Expected exit code */
     expectedExit: number;
     /** Whether this verification passed */
     passed: boolean;
     /** Duration in milliseconds */
     durationMs: number;
-    /** Was output truncated? */
+    /** Whether output was cut off (at the runner ceiling or the 10KB excerpt cap) */
     outputTruncated: boolean;
+    /** Standard output, capped at MAX_OUTPUT_BYTES */
+    stdout: string;
+    /** Standard error, capped at MAX_OUTPUT_BYTES */
+    stderr: string;
+    /** Log of this attempt's stdout in logs/, up to the runner's output cap (null unless stdout was capped) */
+    stdoutLog: string | null;
+    /** Log of this attempt's stderr in logs/, up to the runner's output cap (null unless stderr was capped) */
+    stderrLog: string | null;
+    /** Why the step did not run; absent if it ran */
+    skipped?: VerifySkipReason;
+}
+
+/** One attempt at running a task */
+export interface AttemptRecord {
+    /** Attempt number, starting at 1 */
+    attempt: number;
+    /** How the attempt ended */
+    exitPath: ExitPath;
+    /** Status of the attempt */
+    status: ResultStatus;
+    /** ISO timestamp when the attempt started */
+    startedAt: string;
+    /** Duration of the attempt in milliseconds */
+    durationMs: number;
+    /** Reason for failure (if any) */
+    reason?: string;
 }
 
 export interface Result {
     /** Task ID this result is for */
     taskId: string;
+    /** sha256 of the original task file bytes that produced this result */
+    taskHash?: string;
+    /** Validated task as it was processed (omitted if it contained secrets) */
+    taskSnapshot?: Task;
+    /** Set instead of taskSnapshot when the task itself matched secret patterns */
+    taskSnapshotIncident?: SecretIncident;
+    /** Format of the task file the snapshot was loaded from (json, yaml or markdown) */
+    taskFormat?: TaskFormat;
     /** Overall status */
     status: ResultStatus;
     /** ISO timestamp when task started */
@@ -60,16 +151,24 @@ export interface Result {
     durationMs: number;
     /** Verification results */
     verifyResults: VerifyResult[];
+    /** Canonical exit path */
+    exitPath: ExitPath;
+    /** Machine-readable details for the exit path */
+    details: ExitDetails;
     /** Reason for failure (if status is failed or error) */
     reason?: string;
     /** Branch name created for this task */
     branch?: string;
     /** Commit SHA if changes were committed */
     commitSha?: string;
+    /** Patch artifact captured after the executor stage */
+    patch?: PatchInfo;
     /** Whether insecure runner was used (should always be false in production) */
     insecureRunnerUsed: boolean;
     /** Secret detection info (if secrets were found) */
     secretIncident?: SecretIncident;
+    /** Every attempt in order; the result itself describes the last one */
+    attempts?: AttemptRecord[];
     /** Metadata */
     meta?: Record<string, unknown>;
 }
@@ -81,6 +180,32 @@ export interface SecretIncident {
     matchCount: number;
     /** Hash of incident for deduplication */
     incidentHash: string;
+    /** Where the matches were found (stream or file path, never content) */
+    locations?: string[];
+}
+
+export interface PatchFileStat {
+    /** Path relative to the worktree */
+    file: string;
+    /** Lines added (0 for binary files) */
+    insertions: number;
+    /** Lines removed (0 for binary files) */
+    deletions: number;
+    /** Whether git treated the file as binary */
+    binary: boolean;
+}
+
+export interface PatchInfo {
+    /** Patch filename inside .ai-handoff/patches/ */
+    file: string;
+    /** Number of files changed */
+    filesChanged: number;
+    /** Total lines added */
+    insertions: number;
+    /** Total lines removed */
+    deletions: number;
+    /** Per-file diffstat */
+    files: PatchFileStat[];
 }
 
 /**
@@ -92,6 +217,53 @@ export async function writeResult(result: Result, resultsDir: string, root: stri
     await fsSafe.writeAtomic(filePath, content, root);
 }
 
+/**
+ * Attach the task snapshot and source hash to a result.
+ * The snapshot is scanned first; a task that matches secret patterns is
+ * never copied into the result, only the incident (pattern names) is kept.
+ */
+export function attachTaskSnapshot(result: Result, task: Task, taskHash: string, taskFormat?: TaskFormat): Result {
+    const scan = StreamScanner.scanString(JSON.stringify(task));
+    if (!scan.hasSecrets) {
+        return { ...result, taskHash, taskSnapshot: task, taskFormat };
+    }
+
+    const patterns = [...new Set(scan.matches.map(m => m.pattern))];
+    return {
+        ...result,
+        taskHash,
+        taskFormat,
+        taskSnapshotIncident: {
+            patterns,
+            matchCount: scan.matches.length,
+            incidentHash: taskHash.slice(0, 16),
+            locations: ['task']
+        }
+    };
+}
+
+/**
+ * Record a result that must not replace the task's real result (e.g. a skip).
+ * Each record gets its own timestamped file so repeated skips are all kept.
+ */
+export async function writeResultRecord(result: Result, recordsDir: string, root: string): Promise<string> {
+    const fileName = `${result.taskId}_${Date.now()}.json`;
+    const content = JSON.stringify(result, null, 2);
+    await fsSafe.writeAtomic(path.join(recordsDir, fileName), content, root);
+    return fileName;
+}
+
+/**
+ * Read a previously written result, or null if there is none
+ */
+export async function readResult(resultsDir: string, taskId: string, root: string): Promise<Result | null> {
+    const filePath = path.join(resultsDir, `${taskId}.json`);
+    if (!(await fsSafe.exists(filePath, root))) {
+        return null;
+    }
+    return JSON.parse(await fsSafe.read(filePath, root)) as Result;
+}
+
 /**
  * Create a success result
  */
@@ -100,56 +272,75 @@ export function createSuccessResult(
     startedAt: Date,
     verifyResults: VerifyResult[],
     branch?: string,
-    commitSha?: string
+    commitSha?: string,
+    patch?: PatchInfo
 ): Result {
     const completedAt = new Date();
+    const details: ExitDetailsByPath['completed_success'] = {
+        branch: branch ?? null,
+        commitSha: commitSha ?? null,
+        filesChanged: patch?.filesChanged ?? 0
+    };
     return {
         taskId,
         status: 'success',
+        exitPath: 'completed_success',
+        details,
         startedAt: startedAt.toISOString(),
         completedAt: completedAt.toISOString(),
         durationMs: completedAt.getTime() - startedAt.getTime(),
         verifyResults,
         branch,
         commitSha,
+        patch,
         insecureRunnerUsed: false
     };
 }
 
 /**
- * Create a failed result (verification failed)
+ * Create a failed result (verification failed, scope or contract violated)
  */
-export function createFailedResult(
+export function createFailedResult<P extends FailedExitPath>(
     taskId: string,
     startedAt: Date,
+    exitPath: P,
+    details: ExitDetailsByPath[P],
     reason: string,
-    verifyResults: VerifyResult[]
+    verifyResults: VerifyResult[],
+    patch?: PatchInfo
 ): Result {
     const completedAt = new Date();
     return {
         taskId,
         status: 'failed',
+        exitPath,
+        details,
         startedAt: startedAt.toISOString(),
         completedAt: completedAt.toISOString(),
         durationMs: completedAt.getTime() - startedAt.getTime(),
         verifyResults,
         reason,
+        patch,
         insecureRunnerUsed: false
     };
 }
 
 /**
- * Create an error result (unexpected error)
+ * Create an error result (executor failure or unexpected error)
  */
-export function createErrorResult(
+export function createErrorResult<P extends ExitPath>(
     taskId: string,
     startedAt: Date,
-    reason: string
+    reason: string,
+    exitPath: P,
+    details: ExitDetailsByPath[P]
 ): Result {
     const completedAt = new Date();
     return {
         taskId,
         status: 'error',
+        exitPath,
+        details,
         startedAt: startedAt.toISOString(),
         completedAt: completedAt.toISOString(),
         durationMs: completedAt.getTime() - startedAt.getTime(),
@@ -168,9 +359,16 @@ export function createSecretDetectedResult(
     incident: SecretIncident
 ): Result {
     const completedAt = new Date();
+    const details: ExitDetailsByPath['secret_detected'] = {
+        patterns: incident.patterns,
+        matchCount: incident.matchCount,
+        locations: incident.locations ?? []
+    };
     return {
         taskId,
         status: 'secret_detected',
+        exitPath: 'secret_detected',
+        details,
         startedAt: startedAt.toISOString(),
         completedAt: completedAt.toISOString(),
         durationMs: completedAt.getTime() - startedAt.getTime(),
@@ -180,3 +378,85 @@ export function createSecretDetectedResult(
         secretIncident: incident
     };
 }
+
+/**
+ * Create a skipped result (task already has a result)
+ */
+export function createSkippedResult(
+    taskId: string,
+    reason: string,
+    previousStatus: ResultStatus | null,
+    sameContent: boolean
+): Result {
+    const now = new Date().toISOString();
+    const details: ExitDetailsByPath['idempotent_skip'] = { previousStatus, sameContent };
+    return {
+        taskId,
+        status: 'skipped',
+        exitPath: 'idempotent_skip',
+        details,
+        startedAt: now,
+        completedAt: now,
+        durationMs: 0,
+        verifyResults: [],
+        reason,
+        insecureRunnerUsed: false
+    };
+}
+
+/**
+ * Create a result for a task skipped because a dependency did not succeed
+ */
+export function createDependencyFailedResult(
+    taskId: string,
+    dependsOn: string[],
+    failed: ExitDetailsByPath['dependency_failed']['failed']
+): Result {
+    const now = new Date().toISOString();
+    const details: ExitDetailsByPath['dependency_failed'] = { dependsOn, failed };
+    return {
+        taskId,
+        status: 'skipped',
+        exitPath: 'dependency_failed',
+        details,
+        startedAt: now,
+        completedAt: now,
+        durationMs: 0,
+        verifyResults: [],
+        reason: `Dependency did not succeed: ${failed.map(f => `${f.taskId} (${f.status})`).join(', ')}`,
+        insecureRunnerUsed: false
+    };
+}
+
+/**
+ * Create a result for a task cancelled by request
+ *
+ * @param phase - Step that was interrupted, or null if the task never started
+ */
+export function createCancelledResult(
+    taskId: string,
+    startedAt: Date,
+    phase: string | null,
+    request: { requestedAt: string; reason: string | null }
+): Result {
+    const completedAt = new Date();
+    const details: ExitDetailsByPath['cancelled'] = {
+        phase,
+        requestedAt: request.requestedAt,
+        reason: request.reason
+    };
+    return {
+        taskId,
+        status: 'cancelled',
+        exitPath: 'cancelled',
+        details,
+        startedAt: startedAt.toISOString(),
+        completedAt: completedAt.toISOString(),
+        durationMs: completedAt.getTime() - startedAt.getTime(),
+        verifyResults: [],
+        reason: phase
+            ? `Task cancelled during ${phase}${request.reason ? `: ${request.reason}` : ''}`
+            : `Task cancelled before it started${request.reason ? `: ${request.reason}` : ''}`,
+        insecureRunnerUsed: false
+    };
+}
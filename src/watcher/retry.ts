@@ -0,0 +1,78 @@
+/**
+ * Retry Policy
+ *
+ * A task may be retried after a transient failure (a crashed executor, a
+ * flaky verify, a container that failed to start). The task's own retry
+ * block overrides the watcher default field by field. Failures that a
+ * retry cannot fix (secrets, scope violations, invalid tasks) are never
+ * retryable.
+ */
+
+import { ExitPath } from './result.js';
+
+/** Exit paths a retry policy may list in retryOn */
+export const RETRYABLE_EXIT_PATHS: readonly ExitPath[] = [
+    'opencode_timeout',
+    'opencode_crashed',
+    'verify_failed',
+    'branch_checkout_failed',
+    'internal_error'
+];
+
+export interface RetryPolicy {
+    /** Attempts in total, including the first (default: 1, i.e. no retry) */
+    maxAttempts?: number;
+    /** Delay before the first retry in ms (default: 10000) */
+    backoffMs?: number;
+    /** Multiplier applied to the delay for each further retry (default: 2) */
+    backoffFactor?: number;
+    /** Upper bound for the delay in ms (default: 300000) */
+    maxBackoffMs?: number;
+    /** Exit paths that trigger a retry (default: all retryable exit paths) */
+    retryOn?: ExitPath[];
+}
+
+/** A retry policy with every field filled in */
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+    maxAttempts: 1,
+    backoffMs: 10_000,
+    backoffFactor: 2,
+    maxBackoffMs: 5 * 60 * 1000,
+    retryOn: [...RETRYABLE_EXIT_PATHS]
+};
+
+/**
+ * Combine a task's retry block with the watcher default
+ */
+export function resolveRetryPolicy(
+    taskPolicy: RetryPolicy | undefined,
+    configPolicy: RetryPolicy | undefined
+): ResolvedRetryPolicy {
+    const merged = { ...DEFAULT_RETRY_POLICY };
+    for (const policy of [configPolicy, taskPolicy]) {
+        for (const [key, value] of Object.entries(policy ?? {})) {
+            if (value !== undefined) {
+                (merged as Record<string, unknown>)[key] = value;
+            }
+        }
+    }
+    return merged;
+}
+
+/**
+ * Whether a finished attempt should be followed by another
+ */
+export function shouldRetry(policy: ResolvedRetryPolicy, exitPath: ExitPath, attempt: number): boolean {
+    return attempt < policy.maxAttempts
+        && policy.retryOn.includes(exitPath)
+        && RETRYABLE_EXIT_PATHS.includes(exitPath);
+}
+
+/**
+ * Delay before the attempt following `attempt`
+ */
+export function retryDelayMs(policy: ResolvedRetryPolicy, attempt: number): number {
+    return Math.min(policy.maxBackoffMs, policy.backoffMs * policy.backoffFactor ** (attempt - 1));
+}
@@ -1,14 +1,25 @@
 /**
  * Task schema and validation
  * 
- * Defines the structure of task JSON files that drive the watcher.
+ * Defines the structure of task files that drive the watcher. Tasks may
+ * be written as JSON, YAML (.yaml/.yml) or Markdown (.md) with YAML front
+ * matter and the prompt as the body; all are normalized to the same Task
+ * and validated alike. The schema is strict and versioned (schemaVersion): unknown fields,
+ * out-of-range numbers and malformed ids or dates are all rejected, and
+ * every problem is reported with the path of its field.
  */
 
 import { fsSafe } from '../safe/index.js';
 import * as path from 'node:path';
+import { createHash } from 'node:crypto';
+import { parse as parseYaml } from 'yaml';
+import { QUEUE_NAME_PATTERN } from './queues.js';
+import { RetryPolicy, RETRYABLE_EXIT_PATHS } from './retry.js';
 
 export interface Task {
-    /** Unique task ID (usually UUID) */
+    /** Task schema version (default: 1) */
+    schemaVersion?: number;
+    /** Unique task ID, matching TASK_ID_PATTERN (usually a UUID) */
     id: string;
     /** Task creation timestamp (ISO 8601) */
     created: string;
@@ -20,11 +31,25 @@ export interface Task {
     scope: string[];
     /** Verification commands to run after editing */
     verify: VerifyCommand[];
+    /** Re-run even if a result for this id already exists */
+    force?: boolean;
+    /** IDs of tasks that must have succeeded before this one runs */
+    dependsOn?: string[];
+    /** Scheduling priority; higher runs first (default: 0) */
+    priority?: number;
+    /** Named queue for pausing and per-queue limits (default: "default") */
+    queue?: string;
+    /** Retry after transient failures (default: watcher config, which defaults to no retry) */
+    retry?: RetryPolicy;
+    /** Time limit for the whole task in seconds: executor, all verify steps and retries (default: watcher config) */
+    deadlineSec?: number;
     /** Optional metadata */
     meta?: Record<string, unknown>;
 }
 
 export interface VerifyCommand {
+    /** Display name used in results and logs (default: cmd) */
+    name?: string;
     /** Command to run */
     cmd: string;
     /** Arguments */
@@ -33,101 +58,508 @@ export interface VerifyCommand {
     expectedExit?: number;
     /** Timeout in seconds (default: 60) */
     timeoutSec?: number;
+    /** Whether later on_success steps still run if this one fails (default: stop) */
+    onFailure?: 'stop' | 'continue';
+    /** When this step runs: after no stopping failure, after any failure, or always (default: on_success) */
+    when?: 'always' | 'on_success' | 'on_failure';
+    /** Adjacent steps with the same group run concurrently, each in its own container */
+    group?: string;
+}
+
+/** Format of a task file */
+export type TaskFormat = 'json' | 'yaml' | 'markdown';
+
+/** Task file extensions and their formats */
+export const TASK_FILE_EXTENSIONS: Readonly<Record<string, TaskFormat>> = {
+    '.json': 'json',
+    '.yaml': 'yaml',
+    '.yml': 'yaml',
+    '.md': 'markdown'
+};
+
+/** A validated task together with the file it was loaded from */
+export interface TaskEntry {
+    task: Task;
+    /** Filename inside the tasks directory */
+    file: string;
+    /** Format of that file */
+    format: TaskFormat;
+    /** sha256 of the raw task file bytes */
+    sha256: string;
+}
+
+/** One problem found in a task, with the path of the offending field */
+export interface TaskFieldError {
+    /** Field path, e.g. "verify[1].timeoutSec" (null for the task as a whole) */
+    field: string | null;
+    /** Human-readable description, naming the field */
+    message: string;
 }
 
 export class TaskValidationError extends Error {
-    constructor(message: string, public readonly field?: string) {
+    /** Every problem found, in field order; the message and field are the first one's */
+    readonly errors: TaskFieldError[];
+
+    constructor(message: string, public readonly field?: string, errors?: TaskFieldError[]) {
         super(message);
         this.name = 'TaskValidationError';
+        this.errors = errors ?? [{ field: field ?? null, message }];
+    }
+}
+
+/**
+ * A task is part of a dependency cycle, so it can never run
+ */
+export class DependencyCycleError extends TaskValidationError {
+    constructor(public readonly cycle: string[]) {
+        super(`Dependency cycle: ${cycle.join(' -> ')}`, 'dependsOn');
+        this.name = 'DependencyCycleError';
     }
 }
 
+/** Current task schema version; tasks without schemaVersion are read as this version */
+export const TASK_SCHEMA_VERSION = 1;
+
+/**
+ * Allowed task ids. Ids become file names and the feat/ai/<id> branch name,
+ * so they are limited to characters that are safe in both.
+ */
+export const TASK_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,127}$/;
+
+/** ISO 8601 date-time with seconds and a timezone, e.g. 2026-01-31T12:00:00Z */
+export const TASK_CREATED_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+/** Inclusive range of a numeric task field */
+export interface NumberBounds {
+    min: number;
+    max: number;
+    /** Whether only whole numbers are allowed */
+    integer: boolean;
+}
+
+/** Bounds for every numeric field, by field name */
+export const TASK_BOUNDS = {
+    priority: { min: -1000, max: 1000, integer: true },
+    deadlineSec: { min: 1, max: 7 * 24 * 60 * 60, integer: false },
+    expectedExit: { min: 0, max: 255, integer: true },
+    timeoutSec: { min: 1, max: 24 * 60 * 60, integer: false },
+    maxAttempts: { min: 1, max: 10, integer: true },
+    backoffMs: { min: 0, max: 60 * 60 * 1000, integer: true },
+    maxBackoffMs: { min: 0, max: 60 * 60 * 1000, integer: true },
+    backoffFactor: { min: 1, max: 10, integer: false }
+} as const satisfies Record<string, NumberBounds>;
+
+/** Fields allowed at each level; anything else is rejected */
+export const TASK_FIELDS = [
+    'schemaVersion', 'id', 'created', 'title', 'prompt', 'scope', 'verify', 'force',
+    'dependsOn', 'priority', 'queue', 'retry', 'deadlineSec', 'meta'
+] as const;
+export const VERIFY_FIELDS = [
+    'name', 'cmd', 'args', 'expectedExit', 'timeoutSec', 'onFailure', 'when', 'group'
+] as const;
+export const RETRY_FIELDS = ['maxAttempts', 'backoffMs', 'backoffFactor', 'maxBackoffMs', 'retryOn'] as const;
+
+type ReportError = (field: string | null, message: string) => void;
+
 /**
  * Validate a task object
+ *
+ * @throws TaskValidationError listing every problem found
  */
 export function validateTask(obj: unknown): Task {
-    if (!obj || typeof obj !== 'object') {
-        throw new TaskValidationError('Task must be an object');
+    const errors = findTaskErrors(obj);
+    if (errors.length > 0) {
+        throw new TaskValidationError(errors[0].message, errors[0].field ?? undefined, errors);
+    }
+    return obj as Task;
+}
+
+/**
+ * Check a task object against the schema
+ *
+ * @returns Every problem found (empty if the task is valid)
+ */
+export function findTaskErrors(obj: unknown): TaskFieldError[] {
+    const errors: TaskFieldError[] = [];
+    const report: ReportError = (field, message) => {
+        errors.push({ field, message });
+    };
+
+    if (!isPlainObject(obj)) {
+        report(null, 'Task must be an object');
+        return errors;
     }
 
-    const task = obj as Record<string, unknown>;
+    const task = obj;
+    checkUnknownFields(task, TASK_FIELDS, '', report);
+
+    if (task.schemaVersion !== undefined && task.schemaVersion !== TASK_SCHEMA_VERSION) {
+        report(
+            'schemaVersion',
+            `schemaVersion ${JSON.stringify(task.schemaVersion)} is not supported (expected ${TASK_SCHEMA_VERSION})`
+        );
+    }
 
     // Required fields
     if (typeof task.id !== 'string' || !task.id) {
-        throw new TaskValidationError('Task must have a non-empty string id', 'id');
+        report('id', 'id must be a non-empty string');
+    } else if (!TASK_ID_PATTERN.test(task.id)) {
+        report('id', 'id must be 1-128 letters, digits, "-" or "_", starting with a letter or digit');
     }
     if (typeof task.created !== 'string' || !task.created) {
-        throw new TaskValidationError('Task must have a created timestamp', 'created');
+        report('created', 'created must be a non-empty string');
+    } else if (!TASK_CREATED_PATTERN.test(task.created) || !isRealDateTime(task.created)) {
+        report('created', 'created must be an ISO 8601 date-time, e.g. 2026-01-31T12:00:00Z');
     }
-    if (typeof task.title !== 'string' || !task.title) {
-        throw new TaskValidationError('Task must have a title', 'title');
-    }
-    if (typeof task.prompt !== 'string' || !task.prompt) {
-        throw new TaskValidationError('Task must have a prompt', 'prompt');
+    for (const field of ['title', 'prompt'] as const) {
+        if (typeof task[field] !== 'string' || !task[field]) {
+            report(field, `${field} must be a non-empty string`);
+        }
     }
+
     if (!Array.isArray(task.scope)) {
-        throw new TaskValidationError('Task must have a scope array', 'scope');
+        report('scope', 'scope must be an array of paths');
+    } else {
+        task.scope.forEach((s, i) => {
+            if (typeof s !== 'string' || !s) {
+                report(`scope[${i}]`, `scope[${i}] must be a non-empty string`);
+            }
+        });
     }
+
     if (!Array.isArray(task.verify)) {
-        throw new TaskValidationError('Task must have a verify array', 'verify');
+        report('verify', 'verify must be an array of commands');
+    } else {
+        task.verify.forEach((v, i) => checkVerifyCommand(v, `verify[${i}]`, report));
+    }
+
+    if (task.force !== undefined && typeof task.force !== 'boolean') {
+        report('force', 'force must be a boolean');
     }
 
-    // Validate scope items
-    for (const s of task.scope) {
-        if (typeof s !== 'string') {
-            throw new TaskValidationError('Scope items must be strings', 'scope');
+    if (task.dependsOn !== undefined) {
+        if (!Array.isArray(task.dependsOn)) {
+            report('dependsOn', 'dependsOn must be an array of task ids');
+        } else {
+            task.dependsOn.forEach((dep, i) => {
+                if (typeof dep !== 'string' || !TASK_ID_PATTERN.test(dep)) {
+                    report(`dependsOn[${i}]`, `dependsOn[${i}] must be a task id`);
+                } else if (dep === task.id) {
+                    report(`dependsOn[${i}]`, 'Task cannot depend on itself');
+                }
+            });
         }
     }
 
-    // Validate verify commands
-    for (const v of task.verify) {
-        if (!v || typeof v !== 'object') {
-            throw new TaskValidationError('Verify commands must be objects', 'verify');
+    checkBounds(task.priority, 'priority', TASK_BOUNDS.priority, report);
+
+    if (task.queue !== undefined && (typeof task.queue !== 'string' || !QUEUE_NAME_PATTERN.test(task.queue))) {
+        report('queue', 'queue must be 1-64 letters, digits, "-" or "_", starting with a letter or digit');
+    }
+
+    checkBounds(task.deadlineSec, 'deadlineSec', TASK_BOUNDS.deadlineSec, report);
+
+    if (task.retry !== undefined) {
+        checkRetryPolicy(task.retry, report);
+    }
+
+    if (task.meta !== undefined && !isPlainObject(task.meta)) {
+        report('meta', 'meta must be an object');
+    }
+
+    return errors;
+}
+
+/**
+ * Check one verify command
+ */
+function checkVerifyCommand(obj: unknown, at: string, report: ReportError): void {
+    if (!isPlainObject(obj)) {
+        report(at, `${at} must be an object`);
+        return;
+    }
+
+    const verify = obj;
+    checkUnknownFields(verify, VERIFY_FIELDS, at, report);
+
+    if (typeof verify.cmd !== 'string' || !verify.cmd) {
+        report(`${at}.cmd`, `${at}.cmd must be a non-empty string`);
+    }
+    if (!Array.isArray(verify.args)) {
+        report(`${at}.args`, `${at}.args must be an array of strings`);
+    } else {
+        verify.args.forEach((arg, i) => {
+            if (typeof arg !== 'string') {
+                report(`${at}.args[${i}]`, `${at}.args[${i}] must be a string`);
+            }
+        });
+    }
+    for (const field of ['name', 'group'] as const) {
+        if (verify[field] !== undefined && (typeof verify[field] !== 'string' || !verify[field])) {
+            report(`${at}.${field}`, `${at}.${field} must be a non-empty string`);
+        }
+    }
+
+    checkBounds(verify.expectedExit, `${at}.expectedExit`, TASK_BOUNDS.expectedExit, report);
+    checkBounds(verify.timeoutSec, `${at}.timeoutSec`, TASK_BOUNDS.timeoutSec, report);
+
+    if (verify.onFailure !== undefined && verify.onFailure !== 'stop' && verify.onFailure !== 'continue') {
+        report(`${at}.onFailure`, `${at}.onFailure must be "stop" or "continue"`);
+    }
+    if (verify.when !== undefined && !['always', 'on_success', 'on_failure'].includes(verify.when as string)) {
+        report(`${at}.when`, `${at}.when must be "always", "on_success" or "on_failure"`);
+    }
+}
+
+/**
+ * Check a task's retry block
+ */
+function checkRetryPolicy(obj: unknown, report: ReportError): void {
+    if (!isPlainObject(obj)) {
+        report('retry', 'retry must be an object');
+        return;
+    }
+
+    const retry = obj;
+    checkUnknownFields(retry, RETRY_FIELDS, 'retry', report);
+
+    for (const field of ['maxAttempts', 'backoffMs', 'backoffFactor', 'maxBackoffMs'] as const) {
+        checkBounds(retry[field], `retry.${field}`, TASK_BOUNDS[field], report);
+    }
+
+    if (retry.retryOn !== undefined) {
+        if (!Array.isArray(retry.retryOn)) {
+            report('retry.retryOn', 'retry.retryOn must be an array of exit paths');
+            return;
         }
-        const verify = v as Record<string, unknown>;
-        if (typeof verify.cmd !== 'string') {
-            throw new TaskValidationError('Verify command must have cmd string', 'verify.cmd');
+        retry.retryOn.forEach((exitPath, i) => {
+            if (!RETRYABLE_EXIT_PATHS.includes(exitPath)) {
+                report(
+                    `retry.retryOn[${i}]`,
+                    `retry.retryOn[${i}]: ${exitPath} is not retryable (allowed: ${RETRYABLE_EXIT_PATHS.join(', ')})`
+                );
+            }
+        });
+    }
+}
+
+/**
+ * Report a number outside its bounds (undefined means not set, which is fine)
+ */
+function checkBounds(value: unknown, field: string, bounds: NumberBounds, report: ReportError): void {
+    if (value === undefined) return;
+
+    const valid = typeof value === 'number'
+        && Number.isFinite(value)
+        && (!bounds.integer || Number.isInteger(value))
+        && value >= bounds.min
+        && value <= bounds.max;
+    if (!valid) {
+        report(field, `${field} must be ${bounds.integer ? 'an integer' : 'a number'} from ${bounds.min} to ${bounds.max}`);
+    }
+}
+
+/**
+ * Report fields that are not part of the schema
+ */
+function checkUnknownFields(
+    obj: Record<string, unknown>,
+    allowed: readonly string[],
+    at: string,
+    report: ReportError
+): void {
+    for (const key of Object.keys(obj)) {
+        if (!allowed.includes(key)) {
+            const field = at ? `${at}.${key}` : key;
+            report(field, `${field} is not a known field`);
         }
-        if (!Array.isArray(verify.args)) {
-            throw new TaskValidationError('Verify command must have args array', 'verify.args');
+    }
+}
+
+/**
+ * Parse a YAML task (or front matter); YAML errors are reported as validation errors
+ */
+function parseYamlTask(content: string): unknown {
+    try {
+        return parseYaml(content);
+    } catch (err) {
+        throw new TaskValidationError(`Invalid YAML: ${err instanceof Error ? err.message : String(err)}`);
+    }
+}
+
+/**
+ * Parse a Markdown task: YAML front matter between --- lines, then the prompt
+ */
+function parseMarkdownTask(content: string): unknown {
+    const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+    const end = lines.findIndex((line, i) => i > 0 && line.trimEnd() === '---');
+    if (lines[0].trimEnd() !== '---' || end === -1) {
+        throw new TaskValidationError('Markdown task must start with YAML front matter between --- lines');
+    }
+
+    const frontMatter = parseYamlTask(lines.slice(1, end).join('\n')) ?? {};
+    if (!isPlainObject(frontMatter)) {
+        throw new TaskValidationError('Markdown front matter must be a YAML mapping');
+    }
+
+    const body = lines.slice(end + 1).join('\n').trim();
+    if (!body) {
+        return frontMatter;
+    }
+    if (frontMatter.prompt !== undefined) {
+        throw new TaskValidationError('prompt must be given in the front matter or as the Markdown body, not both', 'prompt');
+    }
+    return { ...frontMatter, prompt: body };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Whether a string matching TASK_CREATED_PATTERN names a moment that exists.
+ * Date.parse rolls impossible dates over (2026-02-30 becomes March 2), so the
+ * date and time are read back in UTC and must come out unchanged.
+ */
+function isRealDateTime(value: string): boolean {
+    const wallClock = value.slice(0, 19);
+    const utc = new Date(`${wallClock}Z`);
+    return !Number.isNaN(Date.parse(value))
+        && !Number.isNaN(utc.getTime())
+        && utc.toISOString().slice(0, 19) === wallClock;
+}
+
+/**
+ * Find dependency cycles among a set of tasks.
+ * Dependencies outside the set are ignored (they either have a result or
+ * have not been queued yet). Each cycle is returned as a closed path, e.g. [a, b, a].
+ */
+export function findDependencyCycles(tasks: Task[]): string[][] {
+    const byId = new Map(tasks.map(t => [t.id, t]));
+    const visited = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+    const cycles: string[][] = [];
+
+    const visit = (id: string): void => {
+        visited.set(id, 'visiting');
+        stack.push(id);
+
+        for (const dep of byId.get(id)?.dependsOn ?? []) {
+            if (!byId.has(dep)) continue;
+            const state = visited.get(dep);
+            if (state === 'visiting') {
+                cycles.push([...stack.slice(stack.indexOf(dep)), dep]);
+            } else if (state === undefined) {
+                visit(dep);
+            }
         }
+
+        stack.pop();
+        visited.set(id, 'done');
+    };
+
+    for (const task of tasks) {
+        if (!visited.has(task.id)) visit(task.id);
     }
+    return cycles;
+}
+
+/**
+ * Format of a task file by its extension, or null if it is not a task file
+ */
+export function taskFileFormat(file: string): TaskFormat | null {
+    return TASK_FILE_EXTENSIONS[path.extname(file).toLowerCase()] ?? null;
+}
+
+/**
+ * Whether a file name has a task file extension
+ */
+export function isTaskFile(file: string): boolean {
+    return taskFileFormat(file) !== null;
+}
 
-    return task as unknown as Task;
+/**
+ * Parse task file content into an (unvalidated) task object
+ *
+ * @throws SyntaxError for invalid JSON, TaskValidationError for invalid YAML or front matter
+ */
+export function parseTaskContent(content: string, format: TaskFormat): unknown {
+    switch (format) {
+        case 'json':
+            return JSON.parse(content);
+        case 'yaml':
+            return parseYamlTask(content);
+        case 'markdown':
+            return parseMarkdownTask(content);
+    }
 }
 
 /**
- * Load a task from a JSON file
+ * Load a task from a task file
  */
 export async function loadTask(filePath: string, root: string): Promise<Task> {
-    const content = await fsSafe.read(filePath, root);
-    const obj = JSON.parse(content);
-    return validateTask(obj);
+    return (await loadTaskEntry(filePath, root)).task;
 }
 
 /**
- * Load all tasks from a directory
+ * Load all tasks from a directory, keeping their source file and content hash
  */
-export async function loadTasks(tasksDir: string, root: string): Promise<Task[]> {
+export async function loadTaskEntries(tasksDir: string, root: string): Promise<TaskEntry[]> {
     const files = await fsSafe.readdir(tasksDir, root);
-    const jsonFiles = files.filter(f => f.endsWith('.json'));
+    const taskFiles = files.filter(isTaskFile);
 
-    const tasks: Task[] = [];
-    for (const file of jsonFiles) {
+    const entries: TaskEntry[] = [];
+    for (const file of taskFiles) {
         const fullPath = path.join(tasksDir, file);
         try {
-            const task = await loadTask(fullPath, root);
-            tasks.push(task);
+            entries.push(await loadTaskEntry(fullPath, root));
         } catch (err) {
             // Log but continue with other tasks
             console.error(`Failed to load task ${file}:`, err);
         }
     }
 
-    // Sort by creation date (oldest first)
-    tasks.sort((a, b) => new Date(a.created).getTime() - new Date(b.created).getTime());
+    return sortTaskEntries(entries);
+}
+
+/**
+ * Load a single task file with its source name, format and content hash
+ */
+export async function loadTaskEntry(filePath: string, root: string): Promise<TaskEntry> {
+    const file = path.basename(filePath);
+    const format = taskFileFormat(file);
+    if (!format) {
+        throw new TaskValidationError(`${file} is not a task file (expected .json, .yaml, .yml or .md)`);
+    }
+
+    const content = await fsSafe.read(filePath, root);
+    const task = validateTask(parseTaskContent(content, format));
+    return { task, file, format, sha256: hashTaskContent(content) };
+}
+
+/**
+ * Sort task entries by priority (highest first), then creation date (oldest first)
+ */
+export function sortTaskEntries(entries: TaskEntry[]): TaskEntry[] {
+    return entries.sort((a, b) =>
+        (b.task.priority ?? 0) - (a.task.priority ?? 0)
+        || new Date(a.task.created).getTime() - new Date(b.task.created).getTime()
+    );
+}
+
+/**
+ * Load all tasks from a directory
+ */
+export async function loadTasks(tasksDir: string, root: string): Promise<Task[]> {
+    const entries = await loadTaskEntries(tasksDir, root);
+    return entries.map(e => e.task);
+}
 
-    return tasks;
+/**
+ * Hash raw task file content (used to recognise re-dropped tasks)
+ */
+export function hashTaskContent(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
 }
 
 /**
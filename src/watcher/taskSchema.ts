@@ -0,0 +1,100 @@
+/**
+ * Task JSON Schema
+ *
+ * Builds a JSON Schema (draft 2020-12) for task files from the same
+ * constants validateTask uses, so planners can target it. The checked-in
+ * copy at schema/task.schema.json is regenerated with `bridge schema`.
+ */
+
+import {
+    TASK_SCHEMA_VERSION,
+    TASK_ID_PATTERN,
+    TASK_CREATED_PATTERN,
+    TASK_BOUNDS,
+    NumberBounds
+} from './task.js';
+import { QUEUE_NAME_PATTERN } from './queues.js';
+import { RETRYABLE_EXIT_PATHS } from './retry.js';
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * JSON Schema for the current task schema version
+ */
+export function taskJsonSchema(): JsonSchema {
+    const taskId: JsonSchema = { type: 'string', pattern: TASK_ID_PATTERN.source };
+    const nonEmpty: JsonSchema = { type: 'string', minLength: 1 };
+
+    const verifyCommand: JsonSchema = {
+        type: 'object',
+        additionalProperties: false,
+        required: ['cmd', 'args'],
+        properties: {
+            name: { ...nonEmpty, description: 'Display name used in results and logs (default: cmd)' },
+            cmd: { ...nonEmpty, description: 'Command to run' },
+            args: { type: 'array', items: { type: 'string' } },
+            expectedExit: numberSchema(TASK_BOUNDS.expectedExit, 'Expected exit code (default: 0)'),
+            timeoutSec: numberSchema(TASK_BOUNDS.timeoutSec, 'Timeout in seconds (default: 60)'),
+            onFailure: {
+                enum: ['stop', 'continue'],
+                description: 'Whether later on_success steps still run if this one fails (default: stop)'
+            },
+            when: {
+                enum: ['always', 'on_success', 'on_failure'],
+                description: 'When this step runs (default: on_success)'
+            },
+            group: { ...nonEmpty, description: 'Adjacent steps with the same group run concurrently' }
+        }
+    };
+
+    const retryPolicy: JsonSchema = {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+            maxAttempts: numberSchema(TASK_BOUNDS.maxAttempts, 'Attempts in total, including the first'),
+            backoffMs: numberSchema(TASK_BOUNDS.backoffMs, 'Delay before the first retry in ms'),
+            backoffFactor: numberSchema(TASK_BOUNDS.backoffFactor, 'Multiplier applied to the delay for each further retry'),
+            maxBackoffMs: numberSchema(TASK_BOUNDS.maxBackoffMs, 'Upper bound for the delay in ms'),
+            retryOn: { type: 'array', items: { enum: [...RETRYABLE_EXIT_PATHS] } }
+        }
+    };
+
+    return {
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        $id: `urn:bridge-watcher:task:v${TASK_SCHEMA_VERSION}`,
+        title: 'Bridge Watcher task',
+        type: 'object',
+        additionalProperties: false,
+        required: ['id', 'created', 'title', 'prompt', 'scope', 'verify'],
+        properties: {
+            schemaVersion: { const: TASK_SCHEMA_VERSION, description: 'Task schema version (default: 1)' },
+            id: { ...taskId, description: 'Unique task ID; used in file names and the feat/ai/<id> branch' },
+            created: {
+                type: 'string',
+                format: 'date-time',
+                pattern: TASK_CREATED_PATTERN.source,
+                description: 'Creation timestamp (ISO 8601), e.g. 2026-01-31T12:00:00Z'
+            },
+            title: nonEmpty,
+            prompt: { ...nonEmpty, description: 'Detailed prompt for the executor' },
+            scope: { type: 'array', items: nonEmpty, description: 'Files/directories the task may change' },
+            verify: { type: 'array', items: verifyCommand, description: 'Verification commands run after editing' },
+            force: { type: 'boolean', description: 'Re-run even if a result for this id already exists' },
+            dependsOn: { type: 'array', items: taskId, description: 'Tasks that must have succeeded first' },
+            priority: numberSchema(TASK_BOUNDS.priority, 'Scheduling priority; higher runs first (default: 0)'),
+            queue: { type: 'string', pattern: QUEUE_NAME_PATTERN.source, description: 'Named queue (default: "default")' },
+            retry: retryPolicy,
+            deadlineSec: numberSchema(TASK_BOUNDS.deadlineSec, 'Time limit for the whole task in seconds'),
+            meta: { type: 'object', description: 'Free-form metadata' }
+        }
+    };
+}
+
+function numberSchema(bounds: NumberBounds, description: string): JsonSchema {
+    return {
+        type: bounds.integer ? 'integer' : 'number',
+        minimum: bounds.min,
+        maximum: bounds.max,
+        description
+    };
+}
@@ -0,0 +1,97 @@
+/**
+ * Handoff Workspace Layout
+ *
+ * Single source of truth for the .ai-handoff/ directory structure and
+ * the per-task names derived from a task ID (worktree, branch, state files).
+ */
+
+import { fsSafe, gitSafe } from '../safe/index.js';
+import * as path from 'node:path';
+
+/** State directory inside the app repo (always gitignored) */
+export const HANDOFF_DIR = '.ai-handoff';
+
+/** Subdirectories of .ai-handoff/ */
+export const DIRS = {
+    tasks: 'tasks',
+    running: 'running',
+    results: 'results',
+    patches: 'patches',
+    logs: 'logs',
+    locks: 'locks',
+    tmp: 'tmp',
+    meta: 'meta',
+    cancel: 'cancel',
+    rejected: 'rejected'
+};
+
+/** Prefix of per-task worktree directories in tmp/ */
+export const WORKTREE_PREFIX = 'ws-';
+
+/** Prefix of branches created for tasks */
+export const TASK_BRANCH_PREFIX = 'feat/ai/';
+
+/**
+ * Branch name for a task
+ */
+export function taskBranchName(taskId: string): string {
+    return `${TASK_BRANCH_PREFIX}${taskId}`;
+}
+
+/**
+ * Worktree path for a task
+ */
+export function taskWorktreePath(handoffPath: string, taskId: string): string {
+    return path.join(handoffPath, DIRS.tmp, `${WORKTREE_PREFIX}${taskId}`);
+}
+
+/**
+ * Name of the copy of a task's original file kept in running/ beside
+ * running/<id>.json, for files that are not <id>.json themselves (YAML,
+ * Markdown, or JSON under another name). Task ids contain no dots, so the
+ * original file name is everything after the first one.
+ */
+export function runningSourceName(taskId: string, file: string): string {
+    return `${taskId}.${file}`;
+}
+
+/**
+ * Original file name of a running task, if running/ holds a copy of it
+ */
+export async function findRunningSource(handoffPath: string, taskId: string, root: string): Promise<string | null> {
+    const runningDir = path.join(handoffPath, DIRS.running);
+    const prefix = runningSourceName(taskId, '');
+    const copy = (await fsSafe.readdir(runningDir, root)).find(f => f.startsWith(prefix) && f !== `${taskId}.json`);
+    return copy ? copy.slice(prefix.length) : null;
+}
+
+/**
+ * Remove a task worktree.
+ * Refuses anything outside tmp/; falls back to deleting the directory
+ * if git no longer knows about the worktree. Never throws.
+ */
+export async function removeWorktree(
+    repoPath: string,
+    handoffPath: string,
+    worktreePath: string
+): Promise<void> {
+    const tmpDir = path.join(handoffPath, DIRS.tmp);
+
+    try {
+        // Only clean up within the tmp directory
+        if (!fsSafe.isContained(worktreePath, tmpDir)) {
+            throw new Error(`Refusing to clean up path outside tmp: ${worktreePath}`);
+        }
+
+        await gitSafe.worktreeRemove(repoPath, worktreePath);
+    } catch {
+        // If worktree remove fails, try manual cleanup
+        try {
+            if (fsSafe.isContained(worktreePath, tmpDir)) {
+                await fsSafe.rmdir(worktreePath, tmpDir);
+            }
+        } catch {
+            // Ignore cleanup errors
+        }
+    }
+}